@@ -1,10 +1,11 @@
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
+import * as fs from 'fs';
 import { createCodeExecutionTool } from '../src/code-execution-tool';
 
 (async () => {
-  // Create tool with default settings (per_execution strategy)  - we set it to per_session to reuse the same container for multiple executions and to have access to the generated files
-  const { codeExecutionTool, cleanup, executionEngine } = createCodeExecutionTool({ defaultStrategy: 'per_session' });
+  // Create tool with default settings (per_execution strategy) - matplotlib figures come back inline in `outputs`, no files needed
+  const { codeExecutionTool, cleanup, executionEngine } = createCodeExecutionTool();
   executionEngine.setVerbosity('info');
   try {
     console.log('Generating python script...');
@@ -15,7 +16,7 @@ import { createCodeExecutionTool } from '../src/code-execution-tool';
         {
           role: 'user',
           content:
-            'Write a Python script that generates random nice looking chart and saves a PNG or SVG chart of temperature change to /workspace/weather.png. Run this code only once with the codeExecutionTool. Pass all required libraries (eg. matplotlib) as dependencies to the tool to be installed by "pip install".' // instruction for AI
+            'Write a Python script that draws a random nice looking chart of temperature change with matplotlib and calls plt.show(). Run this code only once with the codeExecutionTool. Pass all required libraries (eg. matplotlib) as dependencies to the tool to be installed by "pip install".' // instruction for AI
         }
       ],
       tools: { codeExecutionTool },
@@ -23,13 +24,19 @@ import { createCodeExecutionTool } from '../src/code-execution-tool';
     });
 
     console.log('AI response:', res.text);
-    console.log('Execution results:', res.toolResults);
 
     const toolRes = (res.toolResults?.[0] as any)?.result;
     if (toolRes) {
-      console.log('Generated files:', toolRes.generatedFiles);
+      // Every figure arrives as a MIME bundle with a base64 encoded PNG
+      toolRes.outputs
+        .filter((output: any) => output['image/png'])
+        .forEach((output: any, i: number) => {
+          const file = `weather-${i}.png`;
+          fs.writeFileSync(file, Buffer.from(output['image/png'], 'base64'));
+          console.log('Saved chart to', file);
+        });
     }
   } finally {
-    await cleanup(true); // -- after using the files generated by the tool, we can cleanup the container - it will delete the container and the workspace - true means we're keeping the generated files
+    await cleanup();
   }
-})(); 
\ No newline at end of file
+})();
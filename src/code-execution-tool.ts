@@ -2,8 +2,9 @@ import { ExecutionEngine } from './execution-engine';
 import { ContainerStrategy } from './types';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
-import { ContainerMount } from './types';
+import { BlockedConnection, ContainerMount, ExecutionResult, Language, LanguageDetection, MimeBundle, NetworkPolicy, OutputLimits, QueryTable, ResourceProfile, SecretValue } from './types';
 import { LanguageRegistry } from './languages';
+import { detectLanguageForExecution } from './language-detection';
 
 interface CodeExecutionResult {
   stdout: string;
@@ -12,6 +13,19 @@ interface CodeExecutionResult {
   dependencyStderr: string;
   exitCode: number;
   executionTime: number;
+  timedOut: boolean;
+  compileStdout?: string;
+  compileStderr?: string;
+  compileExitCode?: number;
+  compileCached?: boolean;
+  value?: string;
+  outputs: MimeBundle[];
+  tables?: QueryTable[];
+  languageDetection?: LanguageDetection;
+  network?: ExecutionResult['network'];
+  blockedConnections?: BlockedConnection[];
+  resourceUsage?: ExecutionResult['resourceUsage'];
+  truncation?: ExecutionResult['truncation'];
   workspaceDir: string;
   generatedFiles: string[];
   sessionGeneratedFiles: string[];
@@ -23,23 +37,34 @@ interface CodeExecutionToolConfig {
   defaultStrategy?: 'per_execution' | 'pool' | 'per_session';
   verbosity?: 'debug' | 'info';
   workspaceSharing?: 'isolated' | 'shared';
+  timeout?: number;            // ms limit for each run
+  dependencyTimeout?: number;  // ms limit for each dependency installation
+  outputLimits?: OutputLimits; // max bytes of stdout/stderr returned to the model
+  languageManifests?: string[]; // language manifest files or directories to register
+  secrets?: Record<string, SecretValue>; // given to every execution and redacted from its output; never part of the schema
+  network?: NetworkPolicy;     // network access of the programs; default 'full'
+  resources?: ResourceProfile; // container limits, e.g. 'small' or { memory: '1g', pids: 128 }
 }
 
-export function createCodeExecutionTool(config: CodeExecutionToolConfig = {}) {
-  // Build Zod enum from dynamic language names once
+// The language enum lists the languages registered when it is built
+function buildCodeExecutionSchema() {
   const languageNames = LanguageRegistry.names();
   if (languageNames.length === 0) {
     throw new Error('No languages registered');
   }
-  const languageEnum = z.enum([languageNames[0], ...languageNames.slice(1)] as [string, ...string[]]);
-  
+  // Registered names are languages, including those added by manifests
+  const languageEnum = z.enum(languageNames as [Language, ...Language[]]);
 
-  const codeExecutionSchema = z.object({
-    code: z.string().describe('The code to execute.'),
-    language: languageEnum.describe('The programming language of the code.'),
+  return z.object({
+    code: z.string().describe('The code to execute. May be empty when entryFile points at one of the files.'),
+    language: languageEnum.optional().describe('The programming language of the code. Omit to detect it from the code and files.'),
+    version: z.string().optional().describe('Runtime version of the language, e.g. "3.12" for python or "20" for javascript. Omit to use the default.'),
     dependencies: z.array(z.string()).optional().describe('List of dependencies used by the code to be installed.'),
 //    sessionId: z.string().optional().describe('Custom session ID (for re-use across calls).'),
-    environment: z.record(z.string()).optional().describe('Environment variables to set in the container.'),
+    environment: z.record(z.string()).optional().describe('Environment variables for this execution (dependency installation, compilation and the program).'),
+    files: z.record(z.string()).optional().describe('Additional source or data files written to the working directory before the run, keyed by relative path (e.g. {"utils.py": "..."}).'),
+    entryFile: z.string().optional().describe('Relative path of the file to run instead of the code, e.g. "main.py" or "test_app.py".'),
+    stdin: z.string().optional().describe('Text passed to the program on standard input (e.g. answers to input() prompts).'),
     runApp: z.object({
       entryFile: z.string().describe('Path to the entry file relative to the mounted directory'),
       cwd: z.string().describe('Working directory path that should be mounted')
@@ -52,54 +77,84 @@ export function createCodeExecutionTool(config: CodeExecutionToolConfig = {}) {
       stdin: z.function().args(z.string()).optional()
     }).optional().describe('Optional streaming output handlers')
   });
+}
 
-  const engine = new ExecutionEngine();
+export function createCodeExecutionTool(config: CodeExecutionToolConfig = {}) {
+  const engine = new ExecutionEngine({ languageManifests: config.languageManifests });
+
+  // Rebuilt whenever a language is registered so the enum stays current; cleanup() unsubscribes
+  let codeExecutionSchema = buildCodeExecutionSchema();
+  const unsubscribe = LanguageRegistry.onChange(() => {
+    codeExecutionSchema = buildCodeExecutionSchema();
+  });
 
   engine.setVerbosity(config.verbosity ?? 'info');
 
   const tool = {
     description: 'Executes code in an isolated Docker container with support for multiple languages.',
-    parameters: codeExecutionSchema,
+    get parameters() {
+      return codeExecutionSchema;
+    },
     execute: async ({
       code,
-      language,
+      language: requestedLanguage,
+      version,
       dependencies = [],
   //    sessionId,
       environment = {},
       runApp,
+      files,
+      entryFile,
+      stdin,
       streamOutput
-    }: z.infer<typeof codeExecutionSchema>): Promise<CodeExecutionResult> => {
+    }: z.infer<ReturnType<typeof buildCodeExecutionSchema>>, context: { abortSignal?: AbortSignal } = {}): Promise<CodeExecutionResult> => {
       const strategy = config.defaultStrategy ?? 'per_execution';
       const sessionId = config.sessionId ?? uuidv4();
+      // The engine detects the language again and reports it; this only picks the session's image
+      const language = requestedLanguage
+        ?? detectLanguageForExecution({ code, runApp, files, entryFile }, config.mounts).language;
       const session = await engine.createSession({
         sessionId,
         strategy: ContainerStrategy[strategy.toUpperCase() as keyof typeof ContainerStrategy],
         containerConfig: {
-          image: getImageForLanguage(language),
-          environment,
+          image: getImageForLanguage(language, version),
           mounts: config.mounts
-        }
-      });
-
-      const result = await engine.executeCode(session, {
-        language: language as any,
-        code,
-        dependencies,
-        runApp,
-        streamOutput,
-        workspaceSharing: config.workspaceSharing ?? 'isolated'
+        },
+        network: config.network,
+        resources: config.resources
       });
 
-      // Auto cleanup for strategies other than per_session
-      if (strategy !== 'per_session') {
-        await engine.cleanupSession(session);
+      try {
+        return await engine.executeCode(session, {
+          language: requestedLanguage,
+          version,
+          code,
+          dependencies,
+          runApp,
+          files,
+          entryFile,
+          stdin,
+          env: environment,
+          secrets: config.secrets,
+          streamOutput,
+          workspaceSharing: config.workspaceSharing ?? 'isolated',
+          timeout: config.timeout,
+          dependencyTimeout: config.dependencyTimeout,
+          outputLimits: config.outputLimits,
+          signal: context.abortSignal
+        });
+      } finally {
+        // Auto cleanup for strategies other than per_session
+        if (strategy !== 'per_session') {
+          await engine.cleanupSession(session);
+        }
       }
-
-      return result;
     }
   };
 
   async function cleanup(keepGeneratedFiles: boolean = false): Promise<void> {
+    // The registry is static, so its listener would otherwise keep this tool and its engine alive
+    unsubscribe();
     try {
       await engine.cleanup(keepGeneratedFiles);
     } catch {}
@@ -111,8 +166,6 @@ export function createCodeExecutionTool(config: CodeExecutionToolConfig = {}) {
 // Default instance with no mounts
 export const { codeExecutionTool, executionEngine, cleanup } = createCodeExecutionTool();
 
-export function getImageForLanguage(language: string): string {
-  const cfg = LanguageRegistry.get(language);
-  if (!cfg) throw new Error(`Unsupported language: ${language}`);
-  return cfg.defaultImage;
+export function getImageForLanguage(language: string, version?: string): string {
+  return LanguageRegistry.resolveImage(language, version);
 } 
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -6,6 +7,25 @@ export const BASE_TMP_DIR = '/tmp/interpreter-tools';
 // Ensure base directory exists at module load
 fs.mkdirSync(BASE_TMP_DIR, { recursive: true });
 
+// Workspace directory for files written by the engine itself (e.g. build output); never reported as generated
+export const WORKSPACE_ENGINE_DIR = '.interpreter-tools';
+
+// Full output of truncated streams, one directory per session. It lives outside every workspace, so
+// programs cannot redirect the engine's writes, and it outlasts containers until the session is cleaned up.
+export const OUTPUT_SPILL_DIR = path.join(BASE_TMP_DIR, '.output');
+
+// Session ids are caller-supplied, so the directory is named after a hash of the id, never the id itself
+export function outputSpillDirForSession(sessionId: string): string {
+  const dir = path.resolve(OUTPUT_SPILL_DIR, createHash('sha256').update(sessionId).digest('hex'));
+  if (path.dirname(dir) !== path.resolve(OUTPUT_SPILL_DIR)) {
+    throw new Error(`Spill directory for session ${sessionId} is outside ${OUTPUT_SPILL_DIR}`);
+  }
+  return dir;
+}
+
+// Compiled languages build into the directory named by this variable; run commands read their artifacts from it
+export const BUILD_DIR_ENV = 'IT_BUILD_DIR';
+
 export function tempPathForContainer(containerName: string): string {
   return path.join(BASE_TMP_DIR, containerName);
 } 
\ No newline at end of file
@@ -1,10 +1,34 @@
 import Docker from 'dockerode';
 import { v4 as uuidv4 } from 'uuid';
-import { ContainerConfig, ContainerPoolConfig, ContainerStrategy, MountOptions } from './types';
+import { ContainerConfig, ContainerPoolConfig, ContainerStrategy, MountOptions, ResourceLimits } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
-import AdmZip from 'adm-zip';
 import { BASE_TMP_DIR, tempPathForContainer } from './constants';
+import { CONTAINER_RUNTIME_DIR, ensureRuntimeDir } from './runtime-files';
+import { ContainerUnavailableError, ImagePullError } from './errors';
+import { SECRETS_DIR } from './secrets';
+import { extractArchive, validateMount } from './mounts';
+import { creationHostConfig, DEFAULT_RESOURCE_LIMITS } from './resource-profile';
+import { EGRESS_PROXY_HOST, EGRESS_PROXY_IMAGE, EGRESS_PROXY_PORT } from './network-policy';
+
+// Also removes dot-files such as the engine's spilled output
+const WORKSPACE_CLEANUP_COMMAND = 'rm -rf /workspace/* /workspace/.[!.]* /workspace/..?*';
+
+// Label of the internal networks created for egress proxies, so leftovers can be found
+const EGRESS_NETWORK_LABEL = 'interpreter-tools.egress';
+const EGRESS_LOG_DIR = '/var/log/egress';
+const EGRESS_READY_TIMEOUT = 15000;
+
+// Where the archives mounted into a container are extracted
+const extractedMountsDir = (containerName: string) => path.join(BASE_TMP_DIR, '.mounts', containerName);
+const extractedMountDir = (containerName: string, index: number) => path.join(extractedMountsDir(containerName), String(index));
+
+// Egress proxy of one allowlist session; the session's containers join `network`, which has no route out
+export interface EgressProxy {
+  network: string;
+  container: Docker.Container;
+  logFile: string;  // Host path of the proxy's log of blocked requests
+}
 
 interface PooledContainer {
   container: Docker.Container;
@@ -29,58 +53,45 @@ export class ContainerManager {
     };
   }
 
-  private async setupMounts(mounts: MountOptions[]): Promise<Docker.MountSettings[]> {
-    const dockerMounts: Docker.MountSettings[] = [];
-
-    for (const mount of mounts) {
-      switch (mount.type) {
-        case 'file':
-          if (fs.existsSync(mount.source)) {
-            dockerMounts.push({
-              Target: mount.target,
-              Source: mount.source,
-              Type: 'bind',
-              ReadOnly: true
-            });
-          }
-          break;
-
-        case 'directory':
-          if (fs.existsSync(mount.source)) {
-            dockerMounts.push({
-              Target: mount.target,
-              Source: mount.source,
-              Type: 'bind',
-              ReadOnly: false
-            });
-          }
-          break;
-
-        case 'zip':
-          const tempDir = path.join('/tmp', uuidv4());
-          fs.mkdirSync(tempDir, { recursive: true });
-          
-          const zip = new AdmZip(mount.source);
-          zip.extractAllTo(tempDir, true);
-          
-          dockerMounts.push({
-            Target: mount.target,
-            Source: tempDir,
-            Type: 'bind',
-            ReadOnly: false
-          });
-          break;
+  /**
+   * Turns mounts into Docker bind mounts. Every source is validated first; archives are
+   * extracted to a directory of the container that removeContainerAndDir deletes.
+   */
+  private async setupMounts(mounts: MountOptions[], containerName: string): Promise<Docker.MountSettings[]> {
+    mounts.forEach(validateMount);
+    const settings: Docker.MountSettings[] = [];
+    for (const [index, mount] of mounts.entries()) {
+      let source = mount.source;
+      if (mount.type === 'zip' || mount.type === 'tar') {
+        source = extractedMountDir(containerName, index);
+        await extractArchive(mount, source);
       }
+      settings.push({
+        Target: mount.target,
+        Source: source,
+        Type: 'bind',
+        ReadOnly: mount.readOnly ?? mount.type === 'file'
+      });
     }
+    return settings;
+  }
 
-    return dockerMounts;
+  /**
+   * Host directory behind `target` in a container created with `mounts`: the source of a directory
+   * mount, or the directory an archive mount was extracted to. Undefined for file mounts.
+   */
+  mountedDirectory(containerName: string, mounts: MountOptions[], target: string): string | undefined {
+    const index = mounts.findIndex(mount => mount.target === target);
+    const mount = mounts[index];
+    if (mount?.type === 'zip' || mount?.type === 'tar') return extractedMountDir(containerName, index);
+    return mount?.type === 'directory' ? mount.source : undefined;
   }
 
-  async createContainer(config: ContainerConfig): Promise<Docker.Container> {
-    // Pull the image if it doesn't exist
+  // Pulls the image if it doesn't exist
+  private async pullImage(image: string): Promise<void> {
     try {
       await new Promise<void>((resolve, reject) => {
-        this.docker.pull(config.image, (err: Error | null, stream: NodeJS.ReadableStream) => {
+        this.docker.pull(image, (err: Error | null, stream: NodeJS.ReadableStream) => {
           if (err) {
             reject(err);
             return;
@@ -96,9 +107,13 @@ export class ContainerManager {
         });
       });
     } catch (error) {
-      console.error(`Error pulling image ${config.image}:`, error);
-      throw error;
+      console.error(`Error pulling image ${image}:`, error);
+      throw new ImagePullError(image, error);
     }
+  }
+
+  async createContainer(config: ContainerConfig, resources: ResourceLimits = DEFAULT_RESOURCE_LIMITS): Promise<Docker.Container> {
+    await this.pullImage(config.image);
 
     const containerName = config.name ?? `it_${uuidv4()}`;
 
@@ -112,28 +127,52 @@ export class ContainerManager {
       mountsWithWorkspace.push({ type: 'directory', source: workspaceDir, target: '/workspace' });
     }
 
-    const container = await this.docker.createContainer({
-      name: containerName,
-      Image: config.image,
-      Tty: true,
-      HostConfig: {
-        SecurityOpt: ['no-new-privileges'],
-        Memory: 512 * 1024 * 1024, // 512MB
-        CpuPeriod: 100000,
-        CpuQuota: 50000,
-        NetworkMode: 'bridge',
-        Mounts: mountsWithWorkspace.map(mount => ({
-          Target: mount.target,
-          Source: mount.source,
-          Type: 'bind',
-          ReadOnly: false
-        }))
-      },
-      WorkingDir: '/workspace',
-      Cmd: ['sh', '-c', 'mkdir -p /workspace && tail -f /dev/null']
-    });
-
-    await container.start();
+    let mounts: Docker.MountSettings[];
+    try {
+      mounts = await this.setupMounts(mountsWithWorkspace, containerName);
+    } catch (error) {
+      fs.rmSync(extractedMountsDir(containerName), { recursive: true, force: true });
+      throw error;
+    }
+
+    const { Tmpfs: resourceTmpfs, ...resourceConfig } = creationHostConfig(resources);
+
+    let container: Docker.Container;
+    try {
+      container = await this.docker.createContainer({
+        name: containerName,
+        Image: config.image,
+        Env: Object.entries(config.environment ?? {}).map(([key, value]) => `${key}=${value}`),
+        Tty: true,
+        HostConfig: {
+          // Run an init process as PID 1 so processes killed on timeout are reaped instead of left as zombies
+          Init: true,
+          SecurityOpt: ['no-new-privileges'],
+          ...resourceConfig,
+          NetworkMode: 'bridge',
+          // In-memory home of file secrets, so they never reach the image layer or the workspace
+          Tmpfs: { ...resourceTmpfs, [SECRETS_DIR]: 'rw,noexec,nosuid,size=1m,mode=0700' },
+          Mounts: [
+            ...mounts,
+            // Kernels and other helper programs used by the execution engine
+            { Target: CONTAINER_RUNTIME_DIR, Source: ensureRuntimeDir(), Type: 'bind' as const, ReadOnly: true }
+          ]
+        },
+        WorkingDir: '/workspace',
+        Cmd: ['sh', '-c', 'mkdir -p /workspace && tail -f /dev/null']
+      });
+    } catch (error) {
+      fs.rmSync(extractedMountsDir(containerName), { recursive: true, force: true });
+      throw new ContainerUnavailableError(`Failed to create container from ${config.image}`, error);
+    }
+
+    try {
+      await container.start();
+    } catch (error) {
+      await container.remove({ force: true }).catch(() => {});
+      fs.rmSync(extractedMountsDir(containerName), { recursive: true, force: true });
+      throw new ContainerUnavailableError(`Failed to start container ${containerName}`, error);
+    }
 
     // Track created container
     this.containers.set(container.id, container);
@@ -141,6 +180,112 @@ export class ContainerManager {
   }
 
 
+  /**
+   * Attaches the container to `network` only ('bridge' for unrestricted access), or to no network
+   * at all for null. Containers are created on the bridge network and moved, so pooled containers
+   * can serve sessions with different policies.
+   */
+  async setNetwork(container: Docker.Container, network: string | null): Promise<void> {
+    try {
+      const info = await container.inspect();
+      const attached = Object.keys(info.NetworkSettings.Networks ?? {});
+      for (const name of attached) {
+        if (name !== network) {
+          await this.docker.getNetwork(name).disconnect({ Container: container.id, Force: true });
+        }
+      }
+      if (network && !attached.includes(network)) {
+        await this.docker.getNetwork(network).connect({ Container: container.id });
+      }
+    } catch (error) {
+      throw new ContainerUnavailableError(`Failed to attach container to network ${network ?? 'none'}`, error);
+    }
+  }
+
+  /**
+   * Creates an internal network and a proxy container that is reachable on it as EGRESS_PROXY_HOST
+   * and also sits on the bridge network, so it is the only way out. Resolves once the proxy listens.
+   */
+  async createEgressProxy(allow: string[]): Promise<EgressProxy> {
+    await this.pullImage(EGRESS_PROXY_IMAGE);
+
+    const name = `it_egress_${uuidv4()}`;
+    const logDir = path.join(BASE_TMP_DIR, 'egress', name);
+    fs.mkdirSync(logDir, { recursive: true });
+
+    let network: Docker.Network | undefined;
+    let container: Docker.Container | undefined;
+    try {
+      network = await this.docker.createNetwork({
+        Name: name,
+        Driver: 'bridge',
+        Internal: true,
+        Labels: { [EGRESS_NETWORK_LABEL]: 'true' }
+      });
+      container = await this.docker.createContainer({
+        name,
+        Image: EGRESS_PROXY_IMAGE,
+        Env: [
+          `EGRESS_ALLOW=${JSON.stringify(allow)}`,
+          `EGRESS_LOG=${EGRESS_LOG_DIR}/blocked.jsonl`,
+          `EGRESS_PORT=${EGRESS_PROXY_PORT}`
+        ],
+        HostConfig: {
+          Init: true,
+          SecurityOpt: ['no-new-privileges'],
+          Memory: 128 * 1024 * 1024,
+          NetworkMode: 'bridge',
+          Mounts: [
+            { Target: CONTAINER_RUNTIME_DIR, Source: ensureRuntimeDir(), Type: 'bind', ReadOnly: true },
+            { Target: EGRESS_LOG_DIR, Source: logDir, Type: 'bind', ReadOnly: false }
+          ]
+        },
+        Cmd: ['python3', '-u', `${CONTAINER_RUNTIME_DIR}/network/egress_proxy.py`]
+      });
+      await network.connect({ Container: container.id, EndpointConfig: { Aliases: [EGRESS_PROXY_HOST] } });
+      await container.start();
+      await this.waitForEgressProxy(container, path.join(logDir, 'ready'));
+    } catch (error) {
+      await container?.remove({ force: true }).catch(() => {});
+      await network?.remove().catch(() => {});
+      fs.rmSync(logDir, { recursive: true, force: true });
+      throw new ContainerUnavailableError('Failed to start the egress proxy', error);
+    }
+
+    return { network: name, container, logFile: path.join(logDir, 'blocked.jsonl') };
+  }
+
+  // The proxy creates `readyFile` once it listens
+  private async waitForEgressProxy(container: Docker.Container, readyFile: string): Promise<void> {
+    const deadline = Date.now() + EGRESS_READY_TIMEOUT;
+    while (!fs.existsSync(readyFile)) {
+      const info = await container.inspect();
+      if (!info.State.Running) {
+        throw new Error(`proxy exited with code ${info.State.ExitCode}`);
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`proxy not ready after ${EGRESS_READY_TIMEOUT}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  // Containers still on the proxy's network (e.g. pooled ones) are left without a network
+  async removeEgressProxy(proxy: EgressProxy): Promise<void> {
+    try {
+      await proxy.container.remove({ force: true });
+      const network = this.docker.getNetwork(proxy.network);
+      const info = await network.inspect();
+      for (const containerId of Object.keys(info.Containers ?? {})) {
+        await network.disconnect({ Container: containerId, Force: true });
+      }
+      await network.remove();
+    } catch (err) {
+      console.error('Error removing egress proxy:', err);
+    }
+    fs.rmSync(path.dirname(proxy.logFile), { recursive: true, force: true });
+  }
+
   private imageMatches(expected: string, actual: string): boolean {
     // Simple check: ignore registry prefix and compare repository name and tag
     const strip = (img: string) => img.replace(/^.*\//, '');
@@ -180,7 +325,7 @@ export class ContainerManager {
         }
         // Clean workspace
         const exec = await availableContainer.container.exec({
-          Cmd: ['sh', '-c', 'rm -rf /workspace/*'],
+          Cmd: ['sh', '-c', WORKSPACE_CLEANUP_COMMAND],
           AttachStdout: true,
           AttachStderr: true
         });
@@ -249,7 +394,7 @@ export class ContainerManager {
     // Clean up the workspace
     try {
       const exec = await container.exec({
-        Cmd: ['sh', '-c', 'rm -rf /workspace/*'],
+        Cmd: ['sh', '-c', WORKSPACE_CLEANUP_COMMAND],
         AttachStdout: true,
         AttachStderr: true
       });
@@ -365,6 +510,7 @@ export class ContainerManager {
             const cname = (info.Names && info.Names[0]) ? info.Names[0].replace('/', '') : undefined;
             if (cname) {
               fs.rmSync(tempPathForContainer(cname), { recursive: true, force: true });
+              fs.rmSync(extractedMountsDir(cname), { recursive: true, force: true });
             }
           } catch (err) {
             console.error('Error removing leftover it_ container:', err);
@@ -374,6 +520,18 @@ export class ContainerManager {
     } catch (err) {
       console.error('Error during final it_ container sweep:', err);
     }
+
+    // Internal networks of egress proxies; the sweep above removed their containers
+    try {
+      const networks = await this.docker.listNetworks({ filters: { label: [EGRESS_NETWORK_LABEL] } });
+      for (const info of networks) {
+        await this.docker.getNetwork(info.Id).remove().catch((err: unknown) => {
+          console.error('Error removing leftover egress network:', err);
+        });
+      }
+    } catch (err) {
+      console.error('Error during egress network sweep:', err);
+    }
   }
 
   async removeContainerAndDir(container: Docker.Container, deleteDir: boolean = true): Promise<void> {
@@ -384,6 +542,8 @@ export class ContainerManager {
       if (deleteDir) {
         fs.rmSync(tempPathForContainer(cname), { recursive: true, force: true });
       }
+      // Extracted archives are copies of the mount sources, never results worth keeping
+      fs.rmSync(extractedMountsDir(cname), { recursive: true, force: true });
 
       // Remove from tracking structures if present
       this.containers.delete(container.id);
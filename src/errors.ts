@@ -0,0 +1,150 @@
+import { ExecutionResult } from './types';
+
+// Stable identifiers for programmatic handling (HTTP mapping, retry decisions); never change existing values
+export type InterpreterToolsErrorCode =
+  | 'SESSION_NOT_FOUND'
+  | 'SESSION_ALREADY_EXISTS'
+  | 'UNSUPPORTED_LANGUAGE'
+  | 'UNSUPPORTED_VERSION'
+  | 'INVALID_OPTIONS'
+  | 'IMAGE_PULL_FAILED'
+  | 'CONTAINER_UNAVAILABLE'
+  | 'DEPENDENCY_INSTALL_FAILED'
+  | 'EXECUTION_TIMEOUT'
+  | 'EXECUTION_CANCELLED'
+  | 'WORKSPACE_SHARING_NOT_SUPPORTED'
+  | 'KERNEL_START_FAILED'
+  | 'JOB_NOT_FOUND'
+  | 'INVALID_LANGUAGE_MANIFEST'
+  | 'LANGUAGE_DETECTION_FAILED'
+  | 'INVALID_MOUNT';
+
+/**
+ * Base class of every error thrown by the engine. Match on `code` (or `instanceof`),
+ * not on the message text.
+ */
+export class InterpreterToolsError extends Error {
+  readonly code: InterpreterToolsErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: InterpreterToolsErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class SessionNotFoundError extends InterpreterToolsError {
+  constructor(readonly sessionId: string) {
+    super('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+  }
+}
+
+export class SessionAlreadyExistsError extends InterpreterToolsError {
+  constructor(readonly sessionId: string) {
+    super('SESSION_ALREADY_EXISTS', `Session ID ${sessionId} already exists`);
+  }
+}
+
+export class UnsupportedLanguageError extends InterpreterToolsError {
+  constructor(readonly language: string) {
+    super('UNSUPPORTED_LANGUAGE', `Unsupported language: ${language}`);
+  }
+}
+
+export class UnsupportedVersionError extends InterpreterToolsError {
+  constructor(readonly language: string, readonly version: string, readonly availableVersions: string[]) {
+    super(
+      'UNSUPPORTED_VERSION',
+      `Unsupported ${language} version: ${version}` +
+        (availableVersions.length > 0 ? ` (available: ${availableVersions.join(', ')})` : ` (${language} has no selectable versions)`)
+    );
+  }
+}
+
+// Execution options or session settings that cannot be used together
+export class InvalidOptionsError extends InterpreterToolsError {
+  constructor(message: string) {
+    super('INVALID_OPTIONS', message);
+  }
+}
+
+export class ImagePullError extends InterpreterToolsError {
+  constructor(readonly image: string, cause?: unknown) {
+    super('IMAGE_PULL_FAILED', `Failed to pull image ${image}: ${describeCause(cause)}`, cause);
+  }
+}
+
+// Docker could not create, start or exec into a container
+export class ContainerUnavailableError extends InterpreterToolsError {
+  constructor(message: string, cause?: unknown) {
+    super('CONTAINER_UNAVAILABLE', cause ? `${message}: ${describeCause(cause)}` : message, cause);
+  }
+}
+
+// The language's dependency installer crashed (a non-zero install exit code is reported in the result instead)
+export class DependencyInstallError extends InterpreterToolsError {
+  constructor(readonly language: string, cause?: unknown) {
+    super('DEPENDENCY_INSTALL_FAILED', `Dependency installation for ${language} failed: ${describeCause(cause)}`, cause);
+  }
+}
+
+// Thrown instead of returning a timed out result when ExecutionOptions.throwOnTimeout is set
+export class ExecutionTimeoutError extends InterpreterToolsError {
+  constructor(readonly result: ExecutionResult) {
+    super('EXECUTION_TIMEOUT', `Execution timed out after ${result.executionTime}ms`);
+  }
+}
+
+export class ExecutionCancelledError extends InterpreterToolsError {
+  constructor(message: string = 'Execution was cancelled') {
+    super('EXECUTION_CANCELLED', message);
+  }
+}
+
+export class WorkspaceSharingNotSupportedError extends InterpreterToolsError {
+  constructor(readonly strategy: string) {
+    super('WORKSPACE_SHARING_NOT_SUPPORTED',
+      `workspaceSharing "shared" is not supported with ContainerStrategy.${strategy}. Use PER_SESSION for a persistent workspace.`);
+  }
+}
+
+export class KernelStartError extends InterpreterToolsError {
+  constructor(readonly language: string, message: string) {
+    super('KERNEL_START_FAILED', `Kernel for ${language} ${message}`);
+  }
+}
+
+// Unknown job ID, or the job was removed after its retention period
+export class JobNotFoundError extends InterpreterToolsError {
+  constructor(readonly jobId: string) {
+    super('JOB_NOT_FOUND', `Job ${jobId} not found`);
+  }
+}
+
+// A language manifest could not be read, parsed or validated
+export class LanguageManifestError extends InterpreterToolsError {
+  constructor(readonly file: string, message: string, cause?: unknown) {
+    super('INVALID_LANGUAGE_MANIFEST', `Invalid language manifest ${file}: ${message}`, cause);
+  }
+}
+
+// `language` was omitted and nothing about the code points to a registered language
+export class LanguageDetectionError extends InterpreterToolsError {
+  constructor() {
+    super('LANGUAGE_DETECTION_FAILED', 'Could not detect the language of the code; set `language` explicitly');
+  }
+}
+
+// A mount's source is missing, of the wrong kind or an unreadable archive, or its target is not an absolute path
+export class InvalidMountError extends InterpreterToolsError {
+  constructor(readonly source: string, readonly target: string, message: string, cause?: unknown) {
+    super('INVALID_MOUNT', `Invalid mount ${source} -> ${target}: ${message}`, cause);
+  }
+}
+
+function describeCause(cause: unknown): string {
+  if (cause instanceof Error) return cause.message;
+  return cause === undefined ? 'unknown error' : String(cause);
+}
@@ -1,13 +1,63 @@
-import { ContainerManager } from './container-manager';
-import { ExecutionOptions, ExecutionResult, SessionConfig, ContainerStrategy } from './types';
+import { ContainerManager, EgressProxy } from './container-manager';
+import { validateMount } from './mounts';
+import {
+  creationOnlyLimits,
+  DEFAULT_RESOURCE_LIMITS,
+  parseSize,
+  resolveExecutionLimits,
+  resolveResourceProfile,
+  updatableHostConfig
+} from './resource-profile';
+import {
+  ExecutionOptions, ExecutionResult, SessionConfig, ContainerStrategy, InteractiveExecution, StdinHandle, MimeBundle,
+  ExecutionEngineOptions, JobInfo, Language, JobOutputChunk, JobOutputHandlers, BlockedConnection, NetworkPhase, ResourceLimits, ResourceUsage,
+  OutputComparison, QueryTable, TestCase, TestCaseResult, TestSuiteOptions, TestSuiteResult
+} from './types';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
 import * as path from 'path';
 import Docker from 'dockerode';
 import { Duplex } from 'stream';
-import { LanguageRegistry } from './languages';
-import { tempPathForContainer } from './constants';
+import { StringDecoder } from 'string_decoder';
+import { LanguageConfig, LanguageRegistry } from './languages';
+import { registerLanguageManifests } from './language-manifest';
+import { detectLanguageForExecution } from './language-detection';
+import { removeSecretFiles, resolveSecrets, SecretRedactor, writeSecretFiles } from './secrets';
+import {
+  blockedLogOffset,
+  egressProxyEnv,
+  isPhasedNetworkPolicy,
+  networkAccessFor,
+  networkAccessMode,
+  readBlockedConnections,
+  validateNetworkPolicy
+} from './network-policy';
+import { BUILD_DIR_ENV, OUTPUT_SPILL_DIR, outputSpillDirForSession, tempPathForContainer, WORKSPACE_ENGINE_DIR } from './constants';
 import * as crypto from 'crypto';
+import {
+  ContainerUnavailableError,
+  DependencyInstallError,
+  ExecutionCancelledError,
+  ExecutionTimeoutError,
+  InterpreterToolsError,
+  InvalidOptionsError,
+  SessionAlreadyExistsError,
+  SessionNotFoundError,
+  UnsupportedLanguageError,
+  WorkspaceSharingNotSupportedError
+} from './errors';
+import { KernelSession, KernelCellResult } from './kernel';
+import { ProtocolStreamParser } from './protocol-parser';
+import { OutputCollector } from './output-collector';
+import { createExecTag, execTagEnv, freezeProcesses, killAllProcesses, killTaggedProcesses, thawProcesses, withExecTag } from './process-control';
+import { JobManager, JobPhase } from './job-manager';
+import { ExecutionQueue } from './execution-queue';
+import { measureUsage } from './resource-usage';
+import { watchWorkspaceSize, workspaceBytes } from './workspace-limit';
+import { judgeTestCase } from './judge';
+
+// How long an interrupted kernel cell may take to stop before the kernel is killed
+const KERNEL_INTERRUPT_GRACE = 5000;
 
 interface ContainerMeta {
   sessionId: string;
@@ -25,6 +75,55 @@ interface ContainerMeta {
   containerName: string;
 }
 
+// Outcome of a single process run inside the container
+interface ProcessRun {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+  outputs: MimeBundle[];
+  tables: QueryTable[];
+  truncation?: ExecutionResult['truncation'];
+}
+
+// Outcome of the compile step; `buildDir` is the container path of the artifacts
+interface CompileOutcome {
+  buildDir: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+  cached: boolean;
+}
+
+// Execution options once the language is known, either given or detected; `redactor` is set when there are secrets
+type ResolvedExecutionOptions = ExecutionOptions & { language: Language; redactor?: SecretRedactor };
+
+const toEnvList = (vars: Record<string, string>) => Object.entries(vars).map(([key, value]) => `${key}=${value}`);
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Marks a build directory whose compilation finished successfully
+const BUILD_COMPLETE_MARKER = '.complete';
+
+// Build output inside a runApp project; left out of the source hash so it is not re-read on every run
+const BUILD_OUTPUT_DIRS = new Set([WORKSPACE_ENGINE_DIR, 'target']);
+
+// Internal callbacks used by the public execution entry points
+interface ExecutionHooks {
+  onStdinReady?: (stdin: StdinHandle) => void;
+  onPhase?: (phase: JobPhase) => void;
+  testCases?: TestSuiteRun;  // Judge mode: run the prepared program once per case instead of once
+  switchNetwork?: (phase: NetworkPhase) => Promise<void>;  // Called around dependency installation
+}
+
+interface TestSuiteRun {
+  cases: TestCase[];
+  comparison: OutputComparison;
+  stopOnFailure: boolean;
+  results: TestCaseResult[];  // Filled in as the cases run
+}
+
 interface SessionInfo {
   sessionId: string;
   config: SessionConfig;
@@ -163,11 +262,24 @@ export class ExecutionEngine {
   private containerManager: ContainerManager;
   private sessionManager: SessionManager;
   private verbosity: 'info' | 'debug';
+  private kernels: Map<string, KernelSession>; // keyed by `${containerId}:${language}`
+  private jobs: JobManager;
+  private queue: ExecutionQueue;
+  private sessionLocks: Map<string, ExecutionQueue>;
+  private egressProxies: Map<string, Map<NetworkPhase, EgressProxy>>; // keyed by session ID
 
-  constructor() {
+  constructor(options: ExecutionEngineOptions = {}) {
     this.containerManager = new ContainerManager();
     this.sessionManager = new SessionManager();
     this.verbosity = 'info';
+    this.kernels = new Map();
+    this.jobs = new JobManager(options.jobRetention, options.jobOutputBuffer);
+    this.queue = new ExecutionQueue(options.maxConcurrency);
+    this.sessionLocks = new Map();
+    this.egressProxies = new Map();
+    if (options.languageManifests?.length) {
+      registerLanguageManifests(options.languageManifests);
+    }
   }
 
   setVerbosity(level: 'info' | 'debug') {
@@ -188,75 +300,237 @@ export class ExecutionEngine {
     return crypto.createHash('sha256').update(sortedDeps.join('|')).digest('hex');
   }
 
-  private async prepareCodeFile(options: ExecutionOptions, tempDir: string): Promise<void> {
+  private async prepareCodeFile(options: ResolvedExecutionOptions, tempDir: string): Promise<void> {
     fs.mkdirSync(tempDir, { recursive: true });
 
     this.logDebug('Preparing code files in', tempDir);
 
     const langCfg = LanguageRegistry.get(options.language);
     if (!langCfg) {
-      throw new Error(`Unsupported language: ${options.language}`);
+      throw new UnsupportedLanguageError(options.language);
     }
 
     this.logDebug('Source code:\n', options.code);
     langCfg.prepareFiles(options, tempDir);
   }
 
-  private getContainerImage(language: string): string {
-    const cfg = LanguageRegistry.get(language);
-    if (!cfg) throw new Error(`Unsupported language: ${language}`);
-    return cfg.defaultImage;
+  /**
+   * Environment of every process an execution starts: the language's defaults, the proxy variables
+   * when the phase has an allowlist, then the session's `containerConfig.environment`, then the
+   * execution's own `env`. Passing it per exec keeps it correct in pooled containers and keeps one
+   * execution's `env` out of the next.
+   */
+  private executionEnv(
+    language: string,
+    config: SessionConfig,
+    env?: Record<string, string>,
+    phase: NetworkPhase = 'run'
+  ): Record<string, string> {
+    const runtimeEnv = LanguageRegistry.get(language)?.runtimeEnv;
+    const merged: Record<string, string> = {
+      ...runtimeEnv,
+      ...egressProxyEnv(networkAccessFor(config.network, phase)),
+      ...config.containerConfig.environment,
+      ...env
+    };
+    // A caller's PYTHONPATH extends the runtime's, which holds the display helpers the kernel and scripts import
+    if (runtimeEnv?.PYTHONPATH && merged.PYTHONPATH !== runtimeEnv.PYTHONPATH) {
+      merged.PYTHONPATH = merged.PYTHONPATH ? `${runtimeEnv.PYTHONPATH}:${merged.PYTHONPATH}` : runtimeEnv.PYTHONPATH;
+    }
+    return merged;
+  }
+
+  /**
+   * Moves the container onto the network of a phase of the session's policy, starting the phase's
+   * egress proxy on first use. Runs before every execution since pooled containers move between sessions.
+   */
+  private async applyNetworkPolicy(sessionId: string, config: SessionConfig, container: Docker.Container, phase: NetworkPhase): Promise<void> {
+    const access = networkAccessFor(config.network, phase);
+    if (access === 'none' || access === 'full') {
+      await this.containerManager.setNetwork(container, access === 'full' ? 'bridge' : null);
+      return;
+    }
+    const proxies = this.egressProxies.get(sessionId) ?? new Map<NetworkPhase, EgressProxy>();
+    this.egressProxies.set(sessionId, proxies);
+    let proxy = proxies.get(phase);
+    if (!proxy) {
+      this.logDebug('Starting egress proxy', sessionId, phase, access.allow);
+      proxy = await this.containerManager.createEgressProxy(access.allow);
+      proxies.set(phase, proxy);
+    }
+    await this.containerManager.setNetwork(container, proxy.network);
+  }
+
+  // Where the session's proxy logs stand before an execution
+  private egressLogOffsets(sessionId: string): Map<NetworkPhase, number> {
+    const offsets = new Map<NetworkPhase, number>();
+    for (const [phase, proxy] of this.egressProxies.get(sessionId) ?? []) {
+      offsets.set(phase, blockedLogOffset(proxy.logFile));
+    }
+    return offsets;
+  }
+
+  // Requests the session's proxies refused since `offsets`; a proxy started meanwhile is read from its start
+  private blockedConnectionsSince(sessionId: string, offsets: Map<NetworkPhase, number>): BlockedConnection[] {
+    return Array.from(this.egressProxies.get(sessionId) ?? [])
+      .flatMap(([phase, proxy]) => readBlockedConnections(proxy.logFile, offsets.get(phase) ?? 0, phase))
+      .sort((a, b) => a.time.localeCompare(b.time));
+  }
+
+  /**
+   * Enforces the session's workspaceSize while an execution runs: a workspace that outgrows it
+   * gets every process in the container killed. `check` stops the watch and measures once more,
+   * since a burst of writes can fit between two measurements; it tells whether the limit was hit.
+   */
+  private workspaceLimit(container: Docker.Container, config: SessionConfig, codePath: string): { check(): Promise<boolean>; stop(): void } | undefined {
+    const { workspaceSize } = this.sessionResourceLimits(config);
+    if (workspaceSize === undefined) return undefined;
+    const limitBytes = parseSize(workspaceSize, 'workspaceSize');
+    let killed: Promise<void> | undefined;
+    const watch = watchWorkspaceSize(codePath, limitBytes, (bytes) => {
+      this.logDebug(`Workspace grew to ${bytes} bytes, over its limit of ${limitBytes}; killing the container's processes`);
+      killed = killAllProcesses(container);
+    });
+    return {
+      check: async () => {
+        watch.stop();
+        if (!killed && await workspaceBytes(codePath) > limitBytes) {
+          // Programs the execution left running in the background may still be writing
+          killed = killAllProcesses(container);
+        }
+        await killed;
+        return killed !== undefined;
+      },
+      stop: () => watch.stop()
+    };
+  }
+
+  // The session's limits over the defaults; createSession has validated them
+  private sessionResourceLimits(config: SessionConfig): ResourceLimits {
+    return { ...DEFAULT_RESOURCE_LIMITS, ...resolveResourceProfile(config.resources, 'resources') };
+  }
+
+  private async updateResourceLimits(container: Docker.Container, limits: ResourceLimits): Promise<void> {
+    try {
+      await container.update(updatableHostConfig(limits));
+    } catch (err) {
+      throw new ContainerUnavailableError('Failed to update container resource limits', err);
+    }
+  }
+
+  private async releaseEgressProxies(sessionId: string): Promise<void> {
+    const proxies = this.egressProxies.get(sessionId);
+    this.egressProxies.delete(sessionId);
+    for (const proxy of proxies?.values() ?? []) {
+      await this.containerManager.removeEgressProxy(proxy);
+    }
+  }
+
+  private getContainerImage(options: ResolvedExecutionOptions): string {
+    return LanguageRegistry.resolveImage(options.language, options.version);
+  }
+
+  private async installDependencies(
+    container: Docker.Container,
+    install: NonNullable<LanguageConfig['installDependencies']>,
+    options: ResolvedExecutionOptions,
+    env: string[],
+    switchNetwork?: ExecutionHooks['switchNetwork']
+  ): Promise<{ stdout: string; stderr: string; exitCode: number; timedOut: boolean; resourceUsage: ResourceUsage }> {
+    await switchNetwork?.('install');
+    try {
+      const { result, usage } = await measureUsage(container, () => this.runInstaller(container, install, options, env));
+      return { ...result, resourceUsage: usage };
+    } finally {
+      // The program must never start on the install network, so a failed switch fails the execution
+      await switchNetwork?.('run');
+    }
+  }
+
+  private async runInstaller(
+    container: Docker.Container,
+    install: NonNullable<LanguageConfig['installDependencies']>,
+    options: ResolvedExecutionOptions,
+    env: string[]
+  ): Promise<{ stdout: string; stderr: string; exitCode: number; timedOut: boolean }> {
+    // Tag every exec the installer creates so the whole install can be killed on timeout or abort
+    const tag = createExecTag();
+    const pending = install(withExecTag(container, tag, env), options);
+
+    let timedOut = false;
+    const timer = options.dependencyTimeout && options.dependencyTimeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          this.logDebug(`Dependency installation exceeded ${options.dependencyTimeout}ms, killing it`);
+          void killTaggedProcesses(container, tag);
+        }, options.dependencyTimeout)
+      : undefined;
+    const onAbort = () => {
+      this.logDebug('Dependency installation aborted, killing it');
+      void killTaggedProcesses(container, tag);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted) onAbort();
+
+    try {
+      let res: Awaited<typeof pending>;
+      try {
+        res = await pending;
+      } catch (err) {
+        this.throwIfAborted(options.signal);
+        throw err instanceof InterpreterToolsError ? err : new DependencyInstallError(options.language, err);
+      }
+      this.throwIfAborted(options.signal);
+      const redact = (text: string) => options.redactor?.redact(text) ?? text;
+      return { ...res, stdout: redact(res.stdout), stderr: redact(res.stderr), timedOut };
+    } finally {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) {
+      throw new ExecutionCancelledError();
+    }
+  }
+
+  /**
+   * Gives back the container of a cancelled execution: pooled containers return to the
+   * pool, per-execution containers are removed and per-session containers are kept.
+   */
+  private async releaseCancelledContainer(sessionId: string, container: Docker.Container, strategy: ContainerStrategy): Promise<void> {
+    if (strategy === ContainerStrategy.POOL) {
+      await this.containerManager.returnContainerToPool(container);
+      this.sessionManager.setContainer(sessionId, undefined);
+    } else if (strategy === ContainerStrategy.PER_EXECUTION) {
+      await this.containerManager.removeContainerAndDir(container);
+      this.sessionManager.deleteSession(sessionId);
+    }
   }
 
   private async executeInContainer(
     container: Docker.Container,
-    options: ExecutionOptions,
+    options: ResolvedExecutionOptions,
     config: SessionConfig,
-    codePath: string
+    codePath: string,
+    hooks: ExecutionHooks = {}
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
     let command: string[];
     let workingDir = '/workspace';
+    const executionEnv = this.executionEnv(options.language, config, options.env);
+    const installEnv = this.executionEnv(options.language, config, options.env, 'install');
 
     // Collect dependency installation output if we need to surface it later
     let dependencyStdout = '';
     let dependencyStderr = '';
+    const resourceUsage: NonNullable<ExecutionResult['resourceUsage']> = {};
 
     await this.sessionManager.updateContainerState(container.id, true);
 
     try {
-      // Apply per-execution resource limits if specified
-      if (options.cpuLimit || options.memoryLimit) {
-        const updateCfg: any = {};
-
-        // Parse memory strings like '512m', '1g', or number of bytes
-        const parseMem = (val: string): number => {
-          const lower = val.toLowerCase();
-          if (lower.endsWith('g')) return parseInt(lower) * 1024 * 1024 * 1024;
-          if (lower.endsWith('m')) return parseInt(lower) * 1024 * 1024;
-          if (lower.endsWith('k')) return parseInt(lower) * 1024;
-          return parseInt(lower);
-        };
-
-        if (options.memoryLimit) {
-          updateCfg.Memory = parseMem(options.memoryLimit);
-          updateCfg.MemorySwap = -1; // disable swap limit
-        }
-
-        if (options.cpuLimit) {
-          const cpu = parseFloat(options.cpuLimit);
-          if (!isNaN(cpu) && cpu > 0) {
-            updateCfg.CpuPeriod = 100000;
-            updateCfg.CpuQuota = Math.floor(cpu * 100000); // e.g., 0.5 -> 50000
-          }
-        }
-
-        try {
-          await container.update(updateCfg);
-        } catch (err) {
-          console.warn('Failed to update container resource limits:', err);
-        }
-      }
+      this.throwIfAborted(options.signal);
 
       // Get container metadata and calculate new dependency checksum
       const meta = this.sessionManager.getContainerMeta(container.id);
@@ -265,6 +539,12 @@ export class ExecutionEngine {
 
       // Track if dependencies installed successfully (starts with previous status)
       let depsInstallationSucceededGlobal = depsAlreadyInstalled;
+      let depsTimedOut = false;
+
+      // Project files are part of the input, so they are written before the baseline is taken
+      if (options.files) {
+        await this.writeWorkspaceFiles(container, options.files);
+      }
 
       // Save current baseline before execution (this must happen *before* we start executing)
       if (meta) {
@@ -275,11 +555,11 @@ export class ExecutionEngine {
       if (options.runApp) {
         // Validate that the working directory is mounted
         const cwdMount = config.containerConfig.mounts?.find(
-          mount => mount.type === 'directory' && mount.target === options.runApp!.cwd
+          mount => mount.type !== 'file' && mount.target === options.runApp!.cwd
         );
 
         if (!cwdMount) {
-          throw new Error(`Working directory ${options.runApp.cwd} is not mounted in the container`);
+          throw new InvalidOptionsError(`Working directory ${options.runApp.cwd} is not mounted in the container`);
         }
 
         workingDir = options.runApp.cwd;
@@ -288,7 +568,7 @@ export class ExecutionEngine {
         // as it's already in the mounted directory. Build the command via the LanguageRegistry.
         const langCfgRunApp = LanguageRegistry.get(options.language);
         if (!langCfgRunApp) {
-          throw new Error(`Unsupported language: ${options.language}`);
+          throw new UnsupportedLanguageError(options.language);
         }
 
         // ----- Dependency installation phase (runs only when they have not been installed yet and before runApp command) -----
@@ -299,7 +579,10 @@ export class ExecutionEngine {
           this.logDebug('Installing dependencies', options.dependencies);
 
           if (langCfgRunApp.installDependencies) {
-            const { stdout: o, stderr: e, exitCode } = await langCfgRunApp.installDependencies(container, options);
+            hooks.onPhase?.('installing');
+            const { stdout: o, stderr: e, exitCode, timedOut, resourceUsage: installUsage } = await this.installDependencies(container, langCfgRunApp.installDependencies, options, toEnvList(installEnv), hooks.switchNetwork);
+            resourceUsage.install = installUsage;
+            depsTimedOut = timedOut;
             depOut = o;
             depErr = e;
             dependencyStdout = o;
@@ -323,37 +606,40 @@ export class ExecutionEngine {
         }
 
         // Build command using LanguageRegistry (all languages)
-        command = langCfgRunApp.buildRunAppCommand(options.runApp.entryFile, depsInstallationSucceededGlobal);
+        command = langCfgRunApp.buildRunAppCommand(options.runApp.entryFile, depsInstallationSucceededGlobal, options);
       } else {
         // Write code directly to workspace
         // Determine the correct filename based on language
         const langCfgInline = LanguageRegistry.get(options.language)!;
         const workspaceFilename = langCfgInline.codeFilename;
 
-        const writeExec = await container.exec({
-          Cmd: ['sh', '-c', `cat > /workspace/${workspaceFilename} << 'EOL'
+        // Kernel cells are sent straight to the interpreter, there is no file to run
+        if (options.executionMode !== 'kernel') {
+          const writeExec = await container.exec({
+            Cmd: ['sh', '-c', `cat > /workspace/${workspaceFilename} << 'EOL'
 ${options.code.trim()}
 EOL`],
-          AttachStdout: true,
-          AttachStderr: true
-        });
-        const writeStream = await writeExec.start({ hijack: true, stdin: false });
+            AttachStdout: true,
+            AttachStderr: true
+          });
+          const writeStream = await writeExec.start({ hijack: true, stdin: false });
 
-        // Wait for the write operation to complete
-        await new Promise<void>((resolve, reject) => {
-          writeStream.on('end', async () => {
-            try {
-              const info = await writeExec.inspect();
-              if ((info.ExitCode ?? 1) !== 0) {
-                reject(new Error('Failed to write code to workspace'));
-              } else {
-                resolve();
+          // Wait for the write operation to complete
+          await new Promise<void>((resolve, reject) => {
+            writeStream.on('end', async () => {
+              try {
+                const info = await writeExec.inspect();
+                if ((info.ExitCode ?? 1) !== 0) {
+                  reject(new ContainerUnavailableError('Failed to write code to workspace'));
+                } else {
+                  resolve();
+                }
+              } catch (err) {
+                reject(err);
               }
-            } catch (err) {
-              reject(err);
-            }
+            });
           });
-        });
+        }
 
         // List workspace contents only in verbose mode
         if (this.verbosity === 'debug') {
@@ -402,7 +688,10 @@ EOL`],
           };
 
           if (langCfgInline.installDependencies) {
-            const { stdout: o, stderr: e, exitCode } = await langCfgInline.installDependencies(container, options);
+            hooks.onPhase?.('installing');
+            const { stdout: o, stderr: e, exitCode, timedOut, resourceUsage: installUsage } = await this.installDependencies(container, langCfgInline.installDependencies, options, toEnvList(installEnv), hooks.switchNetwork);
+            resourceUsage.install = installUsage;
+            depsTimedOut = timedOut;
             depOut = o;
             depErr = e;
             dependencyStdout = o;
@@ -433,106 +722,631 @@ EOL`],
         }
 
         // Build command using LanguageRegistry (all languages)
-        command = langCfgInline.buildInlineCommand(depsInstallationSucceededGlobal);
+        command = options.entryFile
+          ? langCfgInline.buildRunAppCommand(options.entryFile, depsInstallationSucceededGlobal, options)
+          : langCfgInline.buildInlineCommand(depsInstallationSucceededGlobal, options);
+      }
+
+      this.throwIfAborted(options.signal);
+
+      // A timed out installation leaves the environment incomplete, so the code is not run at all
+      if (depsTimedOut) {
+        this.sessionManager.updateContainerState(container.id, false);
+        return {
+          stdout: '',
+          stderr: '',
+          dependencyStdout,
+          dependencyStderr,
+          exitCode: 124,
+          executionTime: Date.now() - startTime,
+          timedOut: true,
+          resourceUsage,
+          outputs: [],
+          workspaceDir: codePath,
+          generatedFiles: [],
+          sessionGeneratedFiles: meta ? Array.from(meta.sessionGeneratedFiles) : []
+        };
+      }
+
+      // Recorded before compiling, so a failed build does not make the next run reinstall them
+      if (!depsAlreadyInstalled && depsInstallationSucceededGlobal && meta) {
+        meta.depsInstalled = true;
+        meta.depsChecksum = newDepsChecksum;
+      }
+
+      const langCfg = LanguageRegistry.get(options.language)!;
+      const env = toEnvList(executionEnv);
+
+      // ----- Compile phase (compiled languages only) -----
+      let compile: CompileOutcome | undefined;
+      if (langCfg.compile && options.executionMode !== 'kernel') {
+        hooks.onPhase?.('compiling');
+        const compiled = await measureUsage(container, () => this.compileProgram(container, langCfg, options, config, codePath, workingDir, env));
+        compile = compiled.result;
+        resourceUsage.compile = compiled.usage;
+        env.push(`${BUILD_DIR_ENV}=${compile.buildDir}`);
+
+        if (compile.exitCode !== 0) {
+          // A failed build is reported like a failed run; there is nothing to execute
+          this.sessionManager.updateContainerState(container.id, false);
+          return {
+            stdout: '',
+            stderr: '',
+            dependencyStdout,
+            dependencyStderr,
+            exitCode: compile.exitCode,
+            executionTime: Date.now() - startTime,
+            timedOut: compile.timedOut,
+            ...this.compileFields(compile),
+            resourceUsage,
+            outputs: [],
+            workspaceDir: codePath,
+            generatedFiles: [],
+            sessionGeneratedFiles: meta ? Array.from(meta.sessionGeneratedFiles) : []
+          };
+        }
+      }
+
+      hooks.onPhase?.('running');
+
+      if (options.executionMode === 'kernel') {
+        const kernel = await this.getKernel(container, options.language, executionEnv);
+        const output = this.createOutputCollectors(options, container);
+        let cellRun: { cell: KernelCellResult; timedOut: boolean };
+        try {
+          const measured = await measureUsage(container, () => this.runKernelCell(kernel, options, output));
+          cellRun = measured.result;
+          resourceUsage.run = measured.usage;
+        } finally {
+          output.stdout.close();
+          output.stderr.close();
+        }
+        const { cell, timedOut } = cellRun;
+        this.throwIfAborted(options.signal);
+
+        const generatedFiles = await this.updateGeneratedFiles(meta);
+        this.sessionManager.updateContainerState(container.id, false);
+        return {
+          stdout: output.stdout.toString(),
+          stderr: output.stderr.toString(),
+          dependencyStdout,
+          dependencyStderr,
+          exitCode: timedOut ? 124 : (cell.status === 'ok' ? 0 : 1),
+          executionTime: Date.now() - startTime,
+          timedOut,
+          value: cell.value ?? undefined,
+          resourceUsage,
+          outputs: cell.outputs,
+          truncation: this.truncationOf(output),
+          workspaceDir: codePath,
+          generatedFiles,
+          sessionGeneratedFiles: meta ? Array.from(meta.sessionGeneratedFiles) : []
+        };
       }
 
       this.logDebug('Executing command:', command.join(' '));
+      const { result: run, usage: runUsage } = await measureUsage(container, () => hooks.testCases
+        ? this.runTestCases(container, command, workingDir, env, options, codePath, hooks.testCases)
+        : this.runProcess(container, command, workingDir, env, options, codePath, hooks));
+      resourceUsage.run = runUsage;
+
+      const generatedFiles = await this.updateGeneratedFiles(meta);
+
+      const result: ExecutionResult = {
+        stdout: run.stdout,
+        stderr: run.stderr,
+        dependencyStdout: dependencyStdout,
+        dependencyStderr: dependencyStderr,
+        exitCode: run.exitCode,
+        executionTime: Date.now() - startTime,
+        timedOut: run.timedOut,
+        ...this.compileFields(compile),
+        resourceUsage,
+        outputs: run.outputs,
+        ...(run.tables.length > 0 ? { tables: run.tables } : {}),
+        truncation: run.truncation,
+        workspaceDir: codePath,
+        generatedFiles,
+        sessionGeneratedFiles: meta ? Array.from(meta.sessionGeneratedFiles) : []
+      };
+
+      this.logDebug(result);
+      this.sessionManager.updateContainerState(container.id, false);
+      return result;
+    } catch (error) {
+      this.sessionManager.updateContainerState(container.id, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Runs one command in the container and collects its output. Handles stdin, the run
+   * timeout and cancellation; rejects with ExecutionCancelledError when aborted.
+   */
+  private runProcess(
+    container: Docker.Container,
+    command: string[],
+    workingDir: string,
+    env: string[],
+    options: ResolvedExecutionOptions,
+    codePath: string,
+    hooks: ExecutionHooks = {}
+  ): Promise<ProcessRun> {
+    const tag = createExecTag();
+    const attachStdin = options.stdin !== undefined || Boolean(hooks.onStdinReady);
+
+    return new Promise((resolve, reject) => {
+      container.exec({
+        Cmd: command,
+        AttachStdin: attachStdin,
+        AttachStdout: true,
+        AttachStderr: true,
+        WorkingDir: workingDir,
+        Env: [...env, execTagEnv(tag)]
+      }, (err, exec) => {
+        if (err || !exec) {
+          reject(new ContainerUnavailableError('Failed to create exec instance', err || undefined));
+          return;
+        }
 
-      return new Promise((resolve, reject) => {
-        container.exec({
-          Cmd: command,
-          AttachStdout: true,
-          AttachStderr: true,
-          WorkingDir: workingDir
-        }, (err, exec) => {
-          if (err || !exec) {
-            this.sessionManager.updateContainerState(container.id, false);
-            reject(err || new Error('Failed to create exec instance'));
+        exec.start({
+          hijack: true,
+          stdin: attachStdin
+        }, (err, stream) => {
+          if (err || !stream) {
+            reject(new ContainerUnavailableError('Failed to start exec instance', err || undefined));
             return;
           }
 
-          exec.start({
-            hijack: true,
-            stdin: false
-          }, (err, stream) => {
-            if (err || !stream) {
-              this.sessionManager.updateContainerState(container.id, false);
-              reject(err || new Error('Failed to start exec instance'));
+          if (options.stdin !== undefined) {
+            stream.write(options.stdin);
+          }
+          if (hooks.onStdinReady) {
+            // Interactive mode: the caller decides when to close stdin
+            hooks.onStdinReady({
+              write: (data) => { stream.write(data); },
+              end: () => { stream.end(); }
+            });
+          } else if (attachStdin) {
+            // One-shot mode: closing stdin lets the program see EOF
+            stream.end();
+          }
+
+          const output = this.createOutputCollectors(options, container);
+
+          // Kill the whole process tree once the wall-clock limit is hit; the stream then ends normally
+          let timedOut = false;
+          const timer = options.timeout && options.timeout > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                this.logDebug(`Execution exceeded ${options.timeout}ms, killing it`);
+                void killTaggedProcesses(container, tag);
+              }, options.timeout)
+            : undefined;
+          const onAbort = () => {
+            this.logDebug('Execution aborted, killing it');
+            void killTaggedProcesses(container, tag);
+          };
+          options.signal?.addEventListener('abort', onAbort, { once: true });
+          // An abort between the last check and the listener would otherwise be missed
+          if (options.signal?.aborted) onAbort();
+
+          // Runtime helpers (e.g. Python's display()) send rich outputs as protocol messages on stdout
+          const outputs: MimeBundle[] = [];
+          const tables: QueryTable[] = [];
+          const stdoutDecoder = new StringDecoder('utf8');
+          const stderrDecoder = new StringDecoder('utf8');
+          // Secrets are redacted before output reaches the collectors or the callbacks
+          const stdoutRedactor = options.redactor?.stream();
+          const stderrRedactor = options.redactor?.stream();
+          const emitStdout = (data: string) => {
+            output.stdout.push(data);
+            if (data && options.streamOutput?.stdout) {
+              options.streamOutput.stdout(data);
+            }
+          };
+          const emitStderr = (data: string) => {
+            output.stderr.push(data);
+            if (data && options.streamOutput?.stderr) {
+              options.streamOutput.stderr(data);
+            }
+          };
+          const stdoutParser = new ProtocolStreamParser((data) => {
+            emitStdout(stdoutRedactor ? stdoutRedactor.push(data) : data);
+          }, (message) => {
+            if (message.type === 'display') {
+              const data = options.redactor ? options.redactor.redactValue(message.data) : message.data;
+              outputs.push(data);
+              options.streamOutput?.display?.(data);
+            } else if (message.type === 'table') {
+              tables.push(options.redactor ? options.redactor.redactValue(message.data) : message.data);
+            }
+          });
+
+          container.modem.demuxStream(stream as Duplex, {
+            write: (chunk: Buffer) => stdoutParser.push(stdoutDecoder.write(chunk))
+          }, {
+            write: (chunk: Buffer) => {
+              const data = stderrDecoder.write(chunk);
+              emitStderr(stderrRedactor ? stderrRedactor.push(data) : data);
+            }
+          });
+
+          stream.on('end', async () => {
+            if (timer) clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+            stdoutParser.push(stdoutDecoder.end());
+            stdoutParser.flush();
+            if (stdoutRedactor) emitStdout(stdoutRedactor.end());
+            const stderrTail = stderrDecoder.end();
+            emitStderr(stderrRedactor ? stderrRedactor.push(stderrTail) + stderrRedactor.end() : stderrTail);
+            output.stdout.close();
+            output.stderr.close();
+            if (options.signal?.aborted) {
+              reject(new ExecutionCancelledError());
               return;
             }
+            try {
+              const info = await exec.inspect();
+              resolve({
+                stdout: output.stdout.toString(),
+                stderr: output.stderr.toString(),
+                exitCode: timedOut ? 124 : (info.ExitCode ?? 1),
+                timedOut,
+                outputs,
+                tables,
+                truncation: this.truncationOf(output)
+              });
+            } catch (error) {
+              reject(error);
+            }
+          });
+        });
+      });
+    });
+  }
 
-            let stdout = '';
-            let stderr = '';
+  /**
+   * Compiles the program into a build directory named after the source hash. An existing
+   * complete build for the same sources is reused, so unchanged code is not rebuilt.
+   */
+  private async compileProgram(
+    container: Docker.Container,
+    langCfg: LanguageConfig,
+    options: ResolvedExecutionOptions,
+    config: SessionConfig,
+    codePath: string,
+    workingDir: string,
+    env: string[]
+  ): Promise<CompileOutcome> {
+    const hash = this.sourceHash(container, options, config);
+    const buildDir = `/workspace/${path.posix.join(WORKSPACE_ENGINE_DIR, 'build', hash)}`;
+    const marker = `${buildDir}/${BUILD_COMPLETE_MARKER}`;
+
+    // The build directory is writable by programs, so it is only touched from inside the container
+    if (await this.runScript(container, '[ -f "$1" ]', [marker]) === 0) {
+      this.logDebug('Reusing build', hash);
+      return { buildDir, stdout: '', stderr: '', exitCode: 0, timedOut: false, cached: true };
+    }
+    if (await this.runScript(container, 'rm -rf -- "$1" && mkdir -p -- "$1"', [buildDir]) !== 0) {
+      throw new ContainerUnavailableError(`Failed to prepare build directory ${buildDir}`);
+    }
 
-            container.modem.demuxStream(stream as Duplex, {
-              write: (chunk: Buffer) => {
-                const data = chunk.toString();
-                stdout += data;
-                if (options.streamOutput?.stdout) {
-                  options.streamOutput.stdout(data);
-                }
-              }
-            }, {
-              write: (chunk: Buffer) => {
-                const data = chunk.toString();
-                stderr += data;
-                if (options.streamOutput?.stderr) {
-                  options.streamOutput.stderr(data);
-                }
-              }
-            });
+    const entryFile = options.runApp?.entryFile ?? options.entryFile ?? langCfg.codeFilename;
+    const command = langCfg.compile!.buildCommand(entryFile, options);
+    this.logDebug('Compiling:', command.join(' '));
+    const run = await this.runProcess(container, command, workingDir, [...env, `${BUILD_DIR_ENV}=${buildDir}`], {
+      ...options,
+      stdin: undefined,
+      timeout: options.compileTimeout ?? langCfg.compile!.timeout,
+      streamOutput: {
+        stdout: options.streamOutput?.compileStdout,
+        stderr: options.streamOutput?.compileStderr
+      }
+    }, codePath);
 
-            stream.on('end', async () => {
-              try {
-                const info = await exec.inspect();
-                // Update dependency installation status and checksum when they were successfully installed during this run
-                if (!depsAlreadyInstalled && depsInstallationSucceededGlobal && meta) {
-                  meta.depsInstalled = true;
-                  meta.depsChecksum = newDepsChecksum;
-                }
-                const sid = meta?.sessionId;
-                let generatedFiles: string[] = [];
-                if (sid) {
-                  // Get newly generated files since last run
-                  generatedFiles = await this.listWorkspaceFiles(sid, true);
-                }
+    if (run.exitCode === 0 && !run.timedOut) {
+      await this.runScript(container, 'printf %s "$2" > "$1"', [marker, hash]);
+    }
+    return { buildDir, stdout: run.stdout, stderr: run.stderr, exitCode: run.exitCode, timedOut: run.timedOut, cached: false };
+  }
 
-                if (meta) {
-                  // Update current run's generated files
-                  meta.generatedFiles = new Set<string>(generatedFiles);
-                  // Add to accumulated generated files
-                  if (!meta.sessionGeneratedFiles) {
-                    meta.sessionGeneratedFiles = new Set<string>();
-                  }
-                  generatedFiles.forEach(file => meta.sessionGeneratedFiles.add(file));
-                }
+  // Hash of everything the build depends on: the sources, the entry file, the dependencies, the flags and the version
+  private sourceHash(container: Docker.Container, options: ExecutionOptions, config: SessionConfig): string {
+    const hash = crypto.createHash('sha256');
+    hash.update(`${options.language}\0${options.version ?? ''}\0${this.calculateDepsChecksum(options.dependencies)}\0${(options.compileFlags ?? []).join(' ')}\0`);
+    if (options.runApp) {
+      const sourceDir = this.runAppSourceDir(container, config, options.runApp.cwd);
+      hash.update(`${options.runApp.entryFile}\0`);
+      if (sourceDir) this.hashSourceTree(hash, sourceDir);
+    } else {
+      hash.update(`${options.entryFile ?? ''}\0${options.code.trim()}\0`);
+      for (const [relativePath, content] of Object.entries(options.files ?? {}).sort(([a], [b]) => a.localeCompare(b))) {
+        hash.update(`${path.posix.normalize(relativePath)}\0`);
+        hash.update(content);
+      }
+    }
+    return hash.digest('hex').slice(0, 16);
+  }
 
-                const result: ExecutionResult = {
-                  stdout: stdout,
-                  stderr: stderr,
-                  dependencyStdout: dependencyStdout,
-                  dependencyStderr: dependencyStderr,
-                  exitCode: info.ExitCode || 1,
-                  executionTime: Date.now() - startTime,
-                  workspaceDir: codePath,
-                  generatedFiles,
-                  sessionGeneratedFiles: meta ? Array.from(meta.sessionGeneratedFiles) : []
-                };
-
-                this.logDebug(result);
-                this.sessionManager.updateContainerState(container.id, false);
-                resolve(result);
-              } catch (error) {
-                this.sessionManager.updateContainerState(container.id, false);
-                reject(error);
-              }
-            });
-          });
-        });
+  // Host directory behind the runApp working directory; archives are read from their extraction directory
+  private runAppSourceDir(container: Docker.Container, config: SessionConfig, cwd: string): string | undefined {
+    const containerName = this.sessionManager.getContainerMeta(container.id)?.containerName;
+    return containerName ? this.containerManager.mountedDirectory(containerName, config.containerConfig.mounts ?? [], cwd) : undefined;
+  }
+
+  /**
+   * Adds the regular files below `root` to the hash. The tree is writable by programs, so
+   * symlinks, devices and FIFOs are skipped and files are read through O_NOFOLLOW in chunks.
+   */
+  private hashSourceTree(hash: crypto.Hash, root: string, dir: string = root): void {
+    const entries = fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      // Dirent types come from lstat, so a symlinked directory is never entered
+      if (entry.isDirectory()) {
+        if (!BUILD_OUTPUT_DIRS.has(entry.name)) this.hashSourceTree(hash, root, fullPath);
+        continue;
+      }
+      if (!entry.isFile()) continue;
+      let fd: number;
+      try {
+        fd = fs.openSync(fullPath, fs.constants.O_RDONLY | fs.constants.O_NOFOLLOW);
+      } catch {
+        continue;  // Replaced by a symlink or removed since the listing
+      }
+      try {
+        if (!fs.fstatSync(fd).isFile()) continue;
+        hash.update(`${path.relative(root, fullPath)}\0`);
+        const chunk = Buffer.alloc(64 * 1024);
+        for (let read = fs.readSync(fd, chunk); read > 0; read = fs.readSync(fd, chunk)) {
+          hash.update(chunk.subarray(0, read));
+        }
+      } finally {
+        fs.closeSync(fd);
+      }
+    }
+  }
+
+  // Runs a shell script with positional arguments in the container and returns its exit code
+  private async runScript(container: Docker.Container, script: string, args: string[]): Promise<number> {
+    const exec = await container.exec({ Cmd: ['sh', '-c', script, 'sh', ...args], AttachStdout: true, AttachStderr: true });
+    const stream = await exec.start({ hijack: true, stdin: false });
+    await new Promise<void>((resolve) => {
+      stream.on('end', resolve);
+      stream.on('error', () => resolve());
+      stream.resume();
+    });
+    const info = await exec.inspect();
+    return info.ExitCode ?? 1;
+  }
+
+  private compileFields(compile: CompileOutcome | undefined): Partial<ExecutionResult> {
+    if (!compile) return {};
+    return {
+      compileStdout: compile.stdout,
+      compileStderr: compile.stderr,
+      compileExitCode: compile.exitCode,
+      compileCached: compile.cached
+    };
+  }
+
+  /**
+   * Runs the prepared command once per test case, each with its own stdin, arguments and
+   * timeout, and judges the output. Returns a summary run that exits 0 when every case passed.
+   */
+  private async runTestCases(
+    container: Docker.Container,
+    command: string[],
+    workingDir: string,
+    env: string[],
+    options: ResolvedExecutionOptions,
+    codePath: string,
+    suite: TestSuiteRun
+  ): Promise<ProcessRun> {
+    for (const [index, testCase] of suite.cases.entries()) {
+      this.throwIfAborted(options.signal);
+      // Always attach stdin so a program that reads input sees EOF instead of hanging
+      const caseOptions: ResolvedExecutionOptions = { ...options, stdin: testCase.stdin ?? '', timeout: testCase.timeout ?? options.timeout };
+      const { result: run, usage: resourceUsage } = await measureUsage(container, async () => {
+        const caseStart = Date.now();
+        const caseRun = await this.runProcess(container, this.withArgs(command, testCase.args), workingDir, env, caseOptions, codePath);
+        return { ...caseRun, executionTime: Date.now() - caseStart };
       });
-    } catch (error) {
-      this.sessionManager.updateContainerState(container.id, false);
-      throw error;
+
+      const result = judgeTestCase(index, testCase, { ...run, resourceUsage }, suite.comparison);
+      this.logDebug(`Test case ${index}:`, result.verdict);
+      suite.results.push(result);
+      if (suite.stopOnFailure && result.verdict !== 'pass') break;
+    }
+
+    const allPassed = suite.results.length === suite.cases.length && suite.results.every(r => r.verdict === 'pass');
+    return { stdout: '', stderr: '', exitCode: allPassed ? 0 : 1, timedOut: false, outputs: [], tables: [] };
+  }
+
+  // Appends program arguments; `sh -c` scripts receive them as "$@" of their last command
+  private withArgs(command: string[], args: string[] | undefined): string[] {
+    if (!args?.length) return command;
+    if (command[0] === 'sh' && command[1] === '-c' && command.length === 3) {
+      return ['sh', '-c', `${command[2]} "$@"`, 'sh', ...args];
+    }
+    return [...command, ...args];
+  }
+
+  private async updateGeneratedFiles(meta: ContainerMeta | undefined): Promise<string[]> {
+    let generatedFiles: string[] = [];
+    if (meta?.sessionId) {
+      // Get newly generated files since last run
+      generatedFiles = await this.listWorkspaceFiles(meta.sessionId, true);
+    }
+
+    if (meta) {
+      // Update current run's generated files
+      meta.generatedFiles = new Set<string>(generatedFiles);
+      // Add to accumulated generated files
+      if (!meta.sessionGeneratedFiles) {
+        meta.sessionGeneratedFiles = new Set<string>();
+      }
+      generatedFiles.forEach(file => meta.sessionGeneratedFiles.add(file));
+    }
+    return generatedFiles;
+  }
+
+  // Deletes the files an execution created and drops them from its result and the session's records
+  private removeGeneratedFiles(container: Docker.Container, result: ExecutionResult): void {
+    const meta = this.sessionManager.getContainerMeta(container.id);
+    const root = fs.existsSync(result.workspaceDir) ? fs.realpathSync(result.workspaceDir) : result.workspaceDir;
+    for (const file of result.generatedFiles) {
+      // Programs could have swapped a parent directory for a symlink out of the workspace
+      try {
+        const parent = fs.realpathSync(path.dirname(file));
+        if (parent === root || parent.startsWith(root + path.sep)) fs.rmSync(file, { force: true });
+      } catch {}
+      meta?.generatedFiles.delete(file);
+      meta?.sessionGeneratedFiles.delete(file);
+    }
+    const removed = new Set(result.generatedFiles);
+    result.sessionGeneratedFiles = result.sessionGeneratedFiles.filter(file => !removed.has(file));
+    result.generatedFiles = [];
+  }
+
+  // Rejects paths that would land outside the workspace or in the engine's own directory
+  private validateWorkspacePath(relativePath: string): void {
+    const normalized = path.posix.normalize(relativePath);
+    if (!relativePath || path.posix.isAbsolute(relativePath) || normalized === '.' || normalized.startsWith('../') || normalized === '..') {
+      throw new InvalidOptionsError(`Invalid workspace path: ${relativePath}`);
+    }
+    if (normalized === WORKSPACE_ENGINE_DIR || normalized.startsWith(`${WORKSPACE_ENGINE_DIR}/`)) {
+      throw new InvalidOptionsError(`Workspace path ${relativePath} is reserved`);
+    }
+  }
+
+  /**
+   * Writes the files from inside the container rather than on the host: earlier runs may have
+   * left symlinks in the workspace, and these must resolve in the container, never on the host.
+   */
+  private async writeWorkspaceFiles(container: Docker.Container, files: Record<string, string | Buffer>): Promise<void> {
+    for (const [relativePath, content] of Object.entries(files)) {
+      const target = path.posix.join('/workspace', path.posix.normalize(relativePath));
+      const exec = await container.exec({
+        Cmd: ['sh', '-c', 'mkdir -p -- "$(dirname -- "$1")" && cat > "$1"', 'sh', target],
+        AttachStdin: true,
+        AttachStdout: true,
+        AttachStderr: true
+      });
+      const stream = await exec.start({ hijack: true, stdin: true });
+      let stderr = '';
+      await new Promise<void>((resolve) => {
+        container.modem.demuxStream(stream as Duplex,
+          { write: () => {} },
+          { write: (chunk: Buffer) => { stderr += chunk.toString(); } }
+        );
+        stream.on('end', resolve);
+        stream.on('error', () => resolve());
+        stream.end(content);
+      });
+      const info = await exec.inspect();
+      if (info.ExitCode !== 0) {
+        throw new ContainerUnavailableError(`Failed to write ${relativePath} to the workspace: ${stderr.trim() || `exit code ${info.ExitCode}`}`);
+      }
+    }
+    this.logDebug('Wrote workspace files', Object.keys(files));
+  }
+
+  private createOutputCollectors(options: ExecutionOptions, container: Docker.Container): { stdout: OutputCollector; stderr: OutputCollector } {
+    const runId = uuidv4();
+    const sessionId = this.sessionManager.getContainerMeta(container.id)?.sessionId ?? 'unassigned';
+    const spillDir = outputSpillDirForSession(sessionId);
+    return {
+      stdout: new OutputCollector(options.outputLimits?.stdout, path.join(spillDir, `${runId}.stdout.log`)),
+      stderr: new OutputCollector(options.outputLimits?.stderr, path.join(spillDir, `${runId}.stderr.log`))
+    };
+  }
+
+  private truncationOf(output: { stdout: OutputCollector; stderr: OutputCollector }): ExecutionResult['truncation'] {
+    const stdout = output.stdout.truncation;
+    const stderr = output.stderr.truncation;
+    return stdout || stderr ? { stdout, stderr } : undefined;
+  }
+
+  private kernelKey(containerId: string, language: string): string {
+    return `${containerId}:${language}`;
+  }
+
+  private async getKernel(container: Docker.Container, language: string, env: Record<string, string>): Promise<KernelSession> {
+    const key = this.kernelKey(container.id, language);
+    const existing = this.kernels.get(key);
+    if (existing?.isAlive) {
+      return existing;
+    }
+
+    const langCfg = LanguageRegistry.get(language);
+    if (!langCfg?.kernel) {
+      throw new InvalidOptionsError(`Language ${language} does not support kernel mode`);
+    }
+    this.logDebug('Starting kernel', language, 'in container', container.id);
+    const kernel = await KernelSession.start(container, language, langCfg.kernel.command, '/workspace', env);
+    this.kernels.set(key, kernel);
+    return kernel;
+  }
+
+  private async runKernelCell(
+    kernel: KernelSession,
+    options: ResolvedExecutionOptions,
+    output: { stdout: OutputCollector; stderr: OutputCollector }
+  ): Promise<{ cell: KernelCellResult; timedOut: boolean }> {
+    let timedOut = false;
+    let escalation: NodeJS.Timeout | undefined;
+    const stop = () => {
+      void kernel.interrupt();
+      // A cell blocked outside the interpreter (e.g. in native code) ignores SIGINT, so kill the kernel then
+      escalation = setTimeout(() => void kernel.shutdown(), KERNEL_INTERRUPT_GRACE);
+    };
+    const timer = options.timeout && options.timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          this.logDebug(`Kernel cell exceeded ${options.timeout}ms, interrupting it`);
+          stop();
+        }, options.timeout)
+      : undefined;
+    options.signal?.addEventListener('abort', stop, { once: true });
+    if (options.signal?.aborted) stop();
+
+    const { redactor } = options;
+    const streams = { stdout: redactor?.stream(), stderr: redactor?.stream() };
+    const emit = (name: 'stdout' | 'stderr', data: string) => {
+      output[name].push(data);
+      if (data) options.streamOutput?.[name]?.(data);
+    };
+    try {
+      const cell = await kernel.run(options.code, {
+        stdout: (data) => emit('stdout', streams.stdout ? streams.stdout.push(data) : data),
+        stderr: (data) => emit('stderr', streams.stderr ? streams.stderr.push(data) : data),
+        display: options.streamOutput?.display && redactor
+          ? (bundle) => options.streamOutput!.display!(redactor.redactValue(bundle))
+          : options.streamOutput?.display
+      });
+      if (streams.stdout) emit('stdout', streams.stdout.end());
+      if (streams.stderr) emit('stderr', streams.stderr.end());
+      return { cell: redactor ? redactor.redactValue(cell) : cell, timedOut };
+    } finally {
+      if (timer) clearTimeout(timer);
+      if (escalation) clearTimeout(escalation);
+      options.signal?.removeEventListener('abort', stop);
+    }
+  }
+
+  private kernelsForContainer(containerId: string): KernelSession[] {
+    return Array.from(this.kernels.entries())
+      .filter(([key]) => key.startsWith(`${containerId}:`))
+      .map(([, kernel]) => kernel);
+  }
+
+  private dropKernels(containerId: string): void {
+    for (const key of Array.from(this.kernels.keys())) {
+      if (key.startsWith(`${containerId}:`)) {
+        this.kernels.delete(key);
+      }
     }
   }
 
@@ -556,7 +1370,7 @@ EOL`],
           target: '/workspace'
         }
       ]
-    });
+    }, this.sessionResourceLimits(config));
 
     const meta: ContainerMeta = {
       sessionId: config.sessionId!,
@@ -570,7 +1384,7 @@ EOL`],
       createdAt: new Date(),
       lastExecutedAt: null,
       containerId: container.id,
-      imageName: config.containerConfig.image,
+      imageName: expectedImage,
       containerName
     };
 
@@ -586,6 +1400,7 @@ EOL`],
     const containerInfo = await container.inspect();
     if (containerInfo.Config.Image !== expectedImage) {
       this.logDebug('Container image mismatch, removing container');
+      this.dropKernels(container.id);
       // First remove the container but keep workspace if shared
       await this.containerManager.removeContainerAndDir(container, !useSharedWorkspace);
       // Then clear the session container reference
@@ -599,7 +1414,7 @@ EOL`],
   private async prepareWorkspace(
     container: Docker.Container,
     codePath: string,
-    options: ExecutionOptions,
+    options: ResolvedExecutionOptions,
     config: SessionConfig
   ): Promise<void> {
     const meta = this.sessionManager.getContainerMeta(container.id);
@@ -611,27 +1426,224 @@ EOL`],
   }
 
   async executeCode(sessionId: string, options: ExecutionOptions): Promise<ExecutionResult> {
-    this.logDebug('Executing code', sessionId, options);
+    return this.runExecution(sessionId, options);
+  }
+
+  /**
+   * Starts an execution with stdin kept open. Resolves once the program is running,
+   * with a handle for sending more input and a promise of the final result.
+   */
+  async executeInteractive(sessionId: string, options: ExecutionOptions): Promise<InteractiveExecution> {
+    return new Promise<InteractiveExecution>((resolve, reject) => {
+      const result = this.runExecution(sessionId, options, {
+        onStdinReady: (stdin) => resolve({ stdin, result })
+      });
+      // Settles the returned promise when the program never started (failure, or a run skipped
+      // after a dependency timeout); once resolved above these calls are no-ops
+      result.then(() => resolve({ stdin: { write: () => {}, end: () => {} }, result }), reject);
+    });
+  }
+
+  /**
+   * Judge mode: prepares the code and its dependencies once, then runs the program against
+   * every test case in the same container and returns a verdict per case.
+   */
+  async executeTestCases(sessionId: string, options: TestSuiteOptions): Promise<TestSuiteResult> {
+    const { testCases, comparison = 'trimmed', stopOnFailure = false, ...executionOptions } = options;
+    if (testCases.length === 0) {
+      throw new InvalidOptionsError('testCases must contain at least one case');
+    }
+
+    const suite: TestSuiteRun = { cases: testCases, comparison, stopOnFailure, results: [] };
+    const run = await this.runExecution(sessionId, executionOptions, { testCases: suite });
+    return {
+      results: suite.results,
+      passed: suite.results.filter(r => r.verdict === 'pass').length,
+      total: testCases.length,
+      dependencyStdout: run.dependencyStdout,
+      dependencyStderr: run.dependencyStderr,
+      dependencyTimedOut: run.timedOut && run.compileExitCode === undefined && suite.results.length === 0,
+      compileStdout: run.compileStdout,
+      compileStderr: run.compileStderr,
+      compileExitCode: run.compileExitCode,
+      languageDetection: run.languageDetection,
+      network: run.network,
+      blockedConnections: run.blockedConnections,
+      resourceUsage: run.resourceUsage,
+      executionTime: run.executionTime,
+      workspaceDir: run.workspaceDir,
+      generatedFiles: run.generatedFiles
+    };
+  }
+
+  /**
+   * Starts an execution in the background and returns its job ID right away.
+   * Use the job methods below to follow its status and output and to fetch the result.
+   */
+  submitExecution(sessionId: string, options: ExecutionOptions): string {
+    return this.jobs.submit(sessionId, options, (jobOptions, onPhase) =>
+      this.runExecution(sessionId, jobOptions, { onPhase }));
+  }
+
+  getJobStatus(jobId: string): JobInfo {
+    return this.jobs.getStatus(jobId);
+  }
+
+  listJobs(sessionId?: string): JobInfo[] {
+    return this.jobs.list(sessionId);
+  }
+
+  // Buffered output chunks from `fromOffset` on (for polling)
+  getJobOutput(jobId: string, fromOffset: number = 0): JobOutputChunk[] {
+    return this.jobs.getOutput(jobId, fromOffset);
+  }
+
+  // Replays output from `fromOffset`, then streams new chunks; returns an unsubscribe function
+  subscribeJobOutput(jobId: string, handlers: JobOutputHandlers, fromOffset: number = 0): () => void {
+    return this.jobs.subscribe(jobId, handlers, fromOffset);
+  }
+
+  // Resolves with the final result, or rejects with the error the execution failed with
+  getJobResult(jobId: string): Promise<ExecutionResult> {
+    return this.jobs.getResult(jobId);
+  }
+
+  cancelJob(jobId: string): void {
+    this.jobs.cancel(jobId);
+  }
+
+  private async acquireSessionLock(sessionId: string, options: ExecutionOptions): Promise<() => void> {
+    let lock = this.sessionLocks.get(sessionId);
+    if (!lock) {
+      lock = new ExecutionQueue(1);
+      this.sessionLocks.set(sessionId, lock);
+    }
+    let release: () => void;
+    try {
+      // No priority: executions of one session keep their call order
+      release = await lock.acquire({
+        signal: options.signal,
+        onPosition: options.onQueuePosition && ((position) => options.onQueuePosition!(position, 'session'))
+      });
+    } catch (err) {
+      // A cancelled waiter may have been the lock's last user
+      if (lock.idle && this.sessionLocks.get(sessionId) === lock) {
+        this.sessionLocks.delete(sessionId);
+      }
+      throw err;
+    }
+    return () => {
+      release();
+      if (lock!.idle && this.sessionLocks.get(sessionId) === lock) {
+        this.sessionLocks.delete(sessionId);
+      }
+    };
+  }
+
+  private async runExecution(sessionId: string, requestedOptions: ExecutionOptions, hooks: ExecutionHooks = {}): Promise<ExecutionResult> {
+    // Secret values never reach the log, only their names
+    this.logDebug('Executing code', sessionId, { ...requestedOptions, secrets: Object.keys(requestedOptions.secrets ?? {}) });
     const config = this.sessionManager.getSessionConfig(sessionId);
     if (!config) {
-      throw new Error('Invalid session ID');
+      throw new SessionNotFoundError(sessionId);
+    }
+    this.throwIfAborted(requestedOptions.signal);
+
+    const detection = requestedOptions.language
+      ? undefined
+      : detectLanguageForExecution(requestedOptions, config.containerConfig.mounts);
+    if (detection) {
+      this.logDebug('Detected language', detection);
+    }
+    const secrets = resolveSecrets(config.containerConfig.secrets, requestedOptions.secrets);
+    const hasSecrets = Object.keys(secrets.values).length > 0;
+    const options: ResolvedExecutionOptions = {
+      ...requestedOptions,
+      language: requestedOptions.language ?? detection!.language,
+      env: Object.keys(secrets.env).length > 0 ? { ...requestedOptions.env, ...secrets.env } : requestedOptions.env,
+      redactor: hasSecrets ? new SecretRedactor(secrets.values) : undefined
+    };
+    // Rejects unknown languages and versions before the call waits for a slot
+    this.getContainerImage(options);
+
+    for (const name of Object.keys(requestedOptions.env ?? {})) {
+      if (!ENV_NAME_PATTERN.test(name)) {
+        throw new InvalidOptionsError(`Invalid environment variable name: ${name}`);
+      }
+    }
+
+    const executionLimits = resolveExecutionLimits(options);
+
+    for (const [stream, limit] of Object.entries(options.outputLimits ?? {})) {
+      if (limit !== undefined && (!Number.isFinite(limit) || limit < 0)) {
+        throw new InvalidOptionsError(`Invalid outputLimits.${stream}: ${limit}`);
+      }
+    }
+
+    if (options.files || options.entryFile) {
+      if (options.runApp) {
+        throw new InvalidOptionsError('files and entryFile cannot be combined with runApp; put the files in the mounted directory instead');
+      }
+      for (const relativePath of Object.keys(options.files ?? {})) {
+        this.validateWorkspacePath(relativePath);
+      }
+      if (options.entryFile) {
+        this.validateWorkspacePath(options.entryFile);
+        // The entry file ends up in a shell command line
+        if (!/^[\w./-]+$/.test(options.entryFile)) {
+          throw new InvalidOptionsError(`entryFile may only contain letters, digits, '_', '-', '.' and '/': ${options.entryFile}`);
+        }
+      }
+    }
+
+    if (options.executionMode === 'kernel') {
+      if (config.strategy !== ContainerStrategy.PER_SESSION) {
+        throw new InvalidOptionsError(`executionMode "kernel" requires ContainerStrategy.PER_SESSION, got ${config.strategy}`);
+      }
+      if (options.runApp || options.entryFile || options.stdin !== undefined || hooks.onStdinReady || hooks.testCases) {
+        throw new InvalidOptionsError('executionMode "kernel" does not support runApp, entryFile, stdin or test cases');
+      }
+      // The kernel process outlives the call, so per-execution variables would leak into later cells
+      if (Object.keys(requestedOptions.env ?? {}).length > 0 || Object.keys(requestedOptions.secrets ?? {}).length > 0) {
+        throw new InvalidOptionsError(
+          'executionMode "kernel" does not support env or secrets; set containerConfig.environment or containerConfig.secrets on the session instead'
+        );
+      }
+      // A kernel keeps running between cells, so it would share the install network
+      if (isPhasedNetworkPolicy(config.network)) {
+        throw new InvalidOptionsError('executionMode "kernel" cannot be used with a network policy that differs between install and run');
+      }
     }
 
     // Guard: POOL strategy does not support shared workspaces
     if (options.workspaceSharing === 'shared') {
       const unsupportedStrategies = new Set([ContainerStrategy.POOL, ContainerStrategy.PER_EXECUTION]);
       if (unsupportedStrategies.has(config.strategy)) {
-        throw new Error(`workspaceSharing "shared" is not supported with ContainerStrategy.${config.strategy}. ` +
-          `Use PER_SESSION for a persistent workspace.`);
+        throw new WorkspaceSharingNotSupportedError(config.strategy);
       }
     }
 
+    // Executions of one session share its container metadata and workspace, so they run one at a time;
+    // the global queue then bounds how many run across all sessions
+    const releaseSession = await this.acquireSessionLock(sessionId, options);
+    let releaseSlot: (() => void) | undefined;
+
     let codePath: string = '';
     let container: Docker.Container;
 
     try {
-      // Get the expected image for this execution
-      const expectedImage = this.getContainerImage(options.language) || config.containerConfig.image;
+      releaseSlot = await this.queue.acquire({
+        priority: options.priority,
+        signal: options.signal,
+        onPosition: options.onQueuePosition && ((position) => options.onQueuePosition!(position, 'global'))
+      });
+      // The session may have been cleaned up while this call was waiting
+      if (!this.sessionManager.getSessionConfig(sessionId)) {
+        throw new SessionNotFoundError(sessionId);
+      }
+
+      // Get the expected image for this execution; each version has its own image
+      const expectedImage = this.getContainerImage(options) || config.containerConfig.image;
 
       // Determine if we should use a shared workspace
       const useSharedWorkspace = options.workspaceSharing === 'shared';
@@ -784,7 +1796,7 @@ EOL`],
         }
 
         default:
-          throw new Error(`Unsupported container strategy: ${config.strategy}`);
+          throw new InvalidOptionsError(`Unsupported container strategy: ${config.strategy}`);
       }
 
       // If codePath still empty (reused container), infer from container name
@@ -793,21 +1805,108 @@ EOL`],
         codePath = useSharedWorkspace ? sharedWorkspacePath! : tempPathForContainer(info.Name.replace('/', ''));
       }
 
+      // Programs start on the run network; a policy with phases moves the container for dependency installation only
+      await this.applyNetworkPolicy(sessionId, config, container, 'run');
+      const network: NonNullable<ExecutionResult['network']> = { run: networkAccessMode(networkAccessFor(config.network, 'run')) };
+      // Processes earlier executions left running, paused while the installer has its network
+      let frozen: string[] = [];
+      const networkHooks: ExecutionHooks = {
+        ...hooks,
+        switchNetwork: async (phase) => {
+          if (phase === 'install') {
+            network.install = networkAccessMode(networkAccessFor(config.network, 'install'));
+          }
+          if (!isPhasedNetworkPolicy(config.network)) return;
+          if (phase === 'install') {
+            frozen = await freezeProcesses(container);
+            await this.applyNetworkPolicy(sessionId, config, container, phase);
+          } else {
+            // Paused programs resume even when the switch fails; the container is cut off from every
+            // network first, and the failure ends the execution before the program starts
+            try {
+              await this.applyNetworkPolicy(sessionId, config, container, phase);
+            } catch (err) {
+              await this.containerManager.setNetwork(container, null).catch(disconnectErr => {
+                console.error('Failed to disconnect container after a failed network switch:', disconnectErr);
+              });
+              throw err;
+            } finally {
+              await thawProcesses(container, frozen);
+              frozen = [];
+            }
+          }
+        }
+      };
+
       // For PER_SESSION strategy prepare workspace only on first execution
       if (config.strategy === ContainerStrategy.PER_SESSION || config.strategy === ContainerStrategy.POOL) {
         await this.prepareWorkspace(container, codePath, options, config);
       }
 
-      const result = await this.executeInContainer(container, options, config, codePath);
+      let result: ExecutionResult;
+      let runStartedAt: number | undefined;
+      const workspaceLimit = this.workspaceLimit(container, config, codePath);
+      try {
+        // File secrets only exist while the execution runs
+        await writeSecretFiles(container, secrets.files);
+        // Pooled containers carry the limits of the session that used them last
+        if (executionLimits || config.strategy === ContainerStrategy.POOL) {
+          await this.updateResourceLimits(container, { ...this.sessionResourceLimits(config), ...executionLimits });
+        }
+        const logOffsets = this.egressLogOffsets(sessionId);
+        runStartedAt = Date.now();
+        result = await this.executeInContainer(container, options, config, codePath, networkHooks);
+        if (await workspaceLimit?.check()) {
+          result.workspaceLimitExceeded = true;
+          // Without its new files the workspace is back near its size before the execution
+          this.removeGeneratedFiles(container, result);
+        }
+        if (detection) {
+          result.languageDetection = detection;
+        }
+        result.network = network;
+        if (this.egressProxies.has(sessionId)) {
+          result.blockedConnections = this.blockedConnectionsSince(sessionId, logOffsets);
+        }
+      } catch (error) {
+        if (error instanceof ExecutionCancelledError) {
+          await this.releaseCancelledContainer(sessionId, container, config.strategy);
+        }
+        throw error;
+      } finally {
+        workspaceLimit?.stop();
+        if (runStartedAt !== undefined) {
+          this.redactChangedFiles(container, options, config, codePath, runStartedAt);
+        }
+        await removeSecretFiles(container, Object.keys(secrets.files));
+        // Execution limits end with the execution
+        if (executionLimits && config.strategy !== ContainerStrategy.PER_EXECUTION) {
+          await this.updateResourceLimits(container, this.sessionResourceLimits(config)).catch(err => {
+            console.error('Failed to restore session resource limits:', err);
+          });
+        }
+      }
 
       if (config.strategy === ContainerStrategy.PER_EXECUTION) {
         await this.containerManager.removeContainerAndDir(container);
         this.sessionManager.deleteSession(sessionId);
+        await this.releaseEgressProxies(sessionId);
       }
 
+      if (result.timedOut && options.throwOnTimeout) {
+        throw new ExecutionTimeoutError(result);
+      }
       return result;
+    } catch (error) {
+      // Error messages, causes and attached results may quote output or commands that contain a secret
+      if (options.redactor && error instanceof Error) {
+        options.redactor.redactError(error);
+      }
+      throw error;
     } finally {
       /* workspace retained for inspection; cleaned during container removal */
+      releaseSlot?.();
+      releaseSession();
     }
   }
 
@@ -817,6 +1916,8 @@ EOL`],
     const config = this.sessionManager.getSessionConfig(sessionId);
     this.logDebug('Keep generated files?', keepGeneratedFiles);
     if (container) {
+      // Kernels die with their container
+      this.dropKernels(container.id);
       if (config?.strategy === ContainerStrategy.POOL) {
         // Return container to pool after cleaning up workspace via ContainerManager
         await this.containerManager.returnContainerToPool(container);
@@ -846,19 +1947,30 @@ EOL`],
       await this.containerManager.removeContainerAndDir(idle, !keepGeneratedFiles);
     }
     this.sessionManager.clearIdleContainers(sessionId);
+    await this.releaseEgressProxies(sessionId);
+    // Also works after a PER_EXECUTION run, whose session is gone but whose spill files are kept
+    fs.rmSync(outputSpillDirForSession(sessionId), { recursive: true, force: true });
   }
 
   async cleanup(keepGeneratedFiles: boolean = false): Promise<void> {
+    this.jobs.clear();
     // Clean each session respecting generated files flag
     for (const sid of this.sessionManager.getSessionIds()) {
       await this.cleanupSession(sid, keepGeneratedFiles);
     }
+    // Proxies of sessions that ended without a cleanupSession call
+    for (const sid of Array.from(this.egressProxies.keys())) {
+      await this.releaseEgressProxies(sid);
+    }
+    // Spill files of every session, including PER_EXECUTION runs that were never cleaned up one by one
+    fs.rmSync(OUTPUT_SPILL_DIR, { recursive: true, force: true });
     // Finally, let container manager perform global cleanup (this only affects containers
     // not tracked in sessionContainers; it will still delete their workspaces.)
     if (!keepGeneratedFiles) {
       await this.containerManager.cleanup();
     }
     this.sessionManager.clear();
+    this.kernels.clear();
   }
 
   private getWorkspaceDir(container: Docker.Container): string {
@@ -869,6 +1981,45 @@ EOL`],
     return tempPathForContainer(cname);
   }
 
+  /**
+   * Redacts secrets in every file the run created or modified, in the workspace and in the runApp
+   * directory. A program can set a file's mtime back but not its ctime, so changes are found by ctime,
+   * with a second of slack for the kernel's coarse file timestamps.
+   */
+  private redactChangedFiles(container: Docker.Container, options: ResolvedExecutionOptions, config: SessionConfig, codePath: string, since: number): void {
+    if (!options.redactor) return;
+    const roots = [codePath];
+    const sourceDir = options.runApp && this.runAppSourceDir(container, config, options.runApp.cwd);
+    if (sourceDir) roots.push(sourceDir);
+    for (const root of roots) {
+      for (const file of this.listChangedFiles(root, since - 1000)) {
+        options.redactor.redactFile(file, root);
+      }
+    }
+  }
+
+  // Regular files below `dir` whose ctime is at or after `since`, without entering symlinked directories
+  private listChangedFiles(dir: string, since: number): string[] {
+    const results: string[] = [];
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return results;  // Removed while the listing ran, or the workspace is already gone
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        results.push(...this.listChangedFiles(fullPath, since));
+      } else if (entry.isFile()) {
+        try {
+          if (fs.lstatSync(fullPath).ctimeMs >= since) results.push(fullPath);
+        } catch {}
+      }
+    }
+    return results;
+  }
+
   private listAllFiles(dir: string): string[] {
     const results: string[] = [];
     const items = fs.readdirSync(dir, { withFileTypes: true });
@@ -908,19 +2059,20 @@ EOL`],
   // Public helpers
   async listWorkspaceFiles(sessionId: string, onlyGenerated = false): Promise<string[]> {
     const container = this.sessionManager.getContainer(sessionId);
-    if (!container) throw new Error('Session not found');
+    if (!container) throw new SessionNotFoundError(sessionId);
     const workspaceDir = this.getWorkspaceDir(container);
     const currentFiles = this.listAllFiles(workspaceDir);
 
     if (!onlyGenerated) return currentFiles;
 
     const baseline = this.sessionManager.getContainerMeta(container.id)?.baselineFiles ?? new Set<string>();
-    return currentFiles.filter(p => p.startsWith(workspaceDir) && !baseline.has(p));
+    const engineDir = path.join(workspaceDir, WORKSPACE_ENGINE_DIR) + path.sep;
+    return currentFiles.filter(p => p.startsWith(workspaceDir) && !p.startsWith(engineDir) && !baseline.has(p));
   }
 
   async addFileFromBase64(sessionId: string, relativePath: string, dataBase64: string): Promise<void> {
     const container = this.sessionManager.getContainer(sessionId);
-    if (!container) throw new Error('Session not found');
+    if (!container) throw new SessionNotFoundError(sessionId);
     const workspaceDir = this.getWorkspaceDir(container);
     const fullPath = path.join(workspaceDir, relativePath);
     fs.mkdirSync(path.dirname(fullPath), { recursive: true });
@@ -930,7 +2082,7 @@ EOL`],
 
   async copyFileIntoWorkspace(sessionId: string, localPath: string, destRelativePath: string): Promise<void> {
     const container = this.sessionManager.getContainer(sessionId);
-    if (!container) throw new Error('Session not found');
+    if (!container) throw new SessionNotFoundError(sessionId);
     const workspaceDir = this.getWorkspaceDir(container);
     const dest = path.join(workspaceDir, destRelativePath);
     fs.mkdirSync(path.dirname(dest), { recursive: true });
@@ -939,7 +2091,7 @@ EOL`],
 
   async readFileBase64(sessionId: string, relativePath: string): Promise<string> {
     const container = this.sessionManager.getContainer(sessionId);
-    if (!container) throw new Error('Session not found');
+    if (!container) throw new SessionNotFoundError(sessionId);
     const workspaceDir = this.getWorkspaceDir(container);
     const fullPath = path.join(workspaceDir, relativePath);
     return fs.readFileSync(fullPath).toString('base64');
@@ -947,15 +2099,51 @@ EOL`],
 
   async readFileBinary(sessionId: string, relativePath: string): Promise<Buffer> {
     const container = this.sessionManager.getContainer(sessionId);
-    if (!container) throw new Error('Session not found');
+    if (!container) throw new SessionNotFoundError(sessionId);
     const workspaceDir = this.getWorkspaceDir(container);
     return fs.readFileSync(path.join(workspaceDir, relativePath));
   }
 
+  /**
+   * Restarts the session's kernel for `language` (or every running kernel when omitted),
+   * discarding all interpreter state. Resolves once the new kernel is ready.
+   */
+  async restartKernel(sessionId: string, language?: string): Promise<void> {
+    const container = this.sessionManager.getContainer(sessionId);
+    const config = this.sessionManager.getSessionConfig(sessionId);
+    if (!container || !config) throw new SessionNotFoundError(sessionId);
+
+    const languages = language
+      ? [language]
+      : this.kernelsForContainer(container.id).map(k => k.language);
+    for (const lang of languages) {
+      const key = this.kernelKey(container.id, lang);
+      const existing = this.kernels.get(key);
+      if (existing) {
+        await existing.shutdown();
+        this.kernels.delete(key);
+      }
+      await this.getKernel(container, lang, this.executionEnv(lang, config, resolveSecrets(config.containerConfig.secrets).env));
+    }
+  }
+
+  /**
+   * Interrupts the cell currently running in the session's kernel(s); variables are kept.
+   */
+  async interruptKernel(sessionId: string, language?: string): Promise<void> {
+    const container = this.sessionManager.getContainer(sessionId);
+    if (!container) throw new SessionNotFoundError(sessionId);
+
+    const kernels = this.kernelsForContainer(container.id).filter(k => !language || k.language === language);
+    for (const kernel of kernels) {
+      await kernel.interrupt();
+    }
+  }
+
   async getSessionInfo(sessionId: string): Promise<SessionInfo> {
     const config = this.sessionManager.getSessionConfig(sessionId);
     if (!config) {
-      throw new Error(`Session ${sessionId} not found`);
+      throw new SessionNotFoundError(sessionId);
     }
 
     const container = this.sessionManager.getContainer(sessionId);
@@ -995,12 +2183,20 @@ EOL`],
 
     if (this.sessionManager.hasSession(sessionId)) {
       if (config.enforceNewSession) {
-        throw new Error(`Session ID ${sessionId} already exists`);
+        throw new SessionAlreadyExistsError(sessionId);
       }
       this.logDebug('Reusing existing session', sessionId);
       return sessionId; // reuse existing session
     }
 
+    validateNetworkPolicy(config.network);
+    config.containerConfig.mounts?.forEach(validateMount);
+    const fixedLimits = creationOnlyLimits(resolveResourceProfile(config.resources, 'resources'));
+    if (config.strategy === ContainerStrategy.POOL && fixedLimits.length > 0) {
+      throw new InvalidOptionsError(
+        `resources.${fixedLimits.join(', resources.')} cannot be used with ContainerStrategy.POOL, since pooled containers are created without them`
+      );
+    }
     this.logDebug('Creating session', sessionId, 'strategy', config.strategy);
 
     this.sessionManager.setSessionConfig(sessionId, config);
@@ -1022,7 +2218,7 @@ EOL`],
             target: '/workspace'
           }
         ]
-      });
+      }, this.sessionResourceLimits(config));
       this.sessionManager.setContainer(sessionId, container);
       this.sessionManager.setContainerMeta(container.id, {
         sessionId,
@@ -0,0 +1,103 @@
+import { ExecutionCancelledError, InvalidOptionsError } from './errors';
+
+export interface QueueTicket {
+  priority?: number;  // Higher runs first; equal priorities run in arrival order
+  signal?: AbortSignal;
+  onPosition?: (position: number) => void;  // 1-based position among waiting entries, on every change
+}
+
+interface Waiter {
+  priority: number;
+  lastPosition: number;
+  ticket: QueueTicket;
+  grant: () => void;
+  onAbort?: () => void;
+}
+
+/**
+ * Counting semaphore with a priority-ordered wait queue. `acquire` resolves with a
+ * release function once one of the `limit` slots is free.
+ */
+export class ExecutionQueue {
+  private active = 0;
+  private waiting: Waiter[] = [];
+
+  constructor(private readonly limit: number = Infinity) {
+    if (!(limit >= 1)) {
+      throw new InvalidOptionsError(`maxConcurrency must be at least 1, got ${limit}`);
+    }
+  }
+
+  get idle(): boolean {
+    return this.active === 0 && this.waiting.length === 0;
+  }
+
+  get size(): number {
+    return this.waiting.length;
+  }
+
+  acquire(ticket: QueueTicket = {}): Promise<() => void> {
+    if (ticket.signal?.aborted) {
+      return Promise.reject(new ExecutionCancelledError());
+    }
+    if (this.active < this.limit && this.waiting.length === 0) {
+      this.active++;
+      return Promise.resolve(this.releaser());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        priority: ticket.priority ?? 0,
+        lastPosition: 0,
+        ticket,
+        grant: () => resolve(this.releaser())
+      };
+      if (ticket.signal) {
+        waiter.onAbort = () => {
+          this.waiting = this.waiting.filter(w => w !== waiter);
+          this.reportPositions();
+          reject(new ExecutionCancelledError());
+        };
+        ticket.signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      // Keep the queue sorted: highest priority first, then arrival order
+      const index = this.waiting.findIndex(w => w.priority < waiter.priority);
+      this.waiting.splice(index === -1 ? this.waiting.length : index, 0, waiter);
+      this.reportPositions();
+    });
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.dispatch();
+    };
+  }
+
+  private dispatch(): void {
+    while (this.active < this.limit && this.waiting.length > 0) {
+      const next = this.waiting.shift()!;
+      if (next.onAbort) next.ticket.signal!.removeEventListener('abort', next.onAbort);
+      this.active++;
+      next.grant();
+    }
+    this.reportPositions();
+  }
+
+  private reportPositions(): void {
+    this.waiting.forEach((waiter, i) => {
+      if (waiter.lastPosition !== i + 1) {
+        waiter.lastPosition = i + 1;
+        try {
+          waiter.ticket.onPosition?.(i + 1);
+        } catch (err) {
+          console.error('Queue position callback failed:', err);
+        }
+      }
+    });
+  }
+}
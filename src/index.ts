@@ -2,4 +2,8 @@ export * from './container-manager';
 export * from './types';
 export * from './code-execution-tool';
 export * from './languages'; 
-export * from './execution-engine';
\ No newline at end of file
+export * from './language-manifest';
+export * from './language-detection';
+export { SecretRedactor, SECRETS_DIR } from './secrets';
+export * from './execution-engine';
+export * from './errors';
\ No newline at end of file
@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ExecutionOptions, ExecutionResult, JobInfo, JobOutputChunk, JobOutputHandlers, JobStatus } from './types';
+import { ExecutionCancelledError, InterpreterToolsError, JobNotFoundError } from './errors';
+
+export const DEFAULT_JOB_RETENTION = 60 * 60 * 1000;
+
+export const DEFAULT_JOB_OUTPUT_BUFFER = 1024 * 1024;
+
+export type JobPhase = 'installing' | 'compiling' | 'running';
+
+const PHASE_ORDER: JobStatus[] = ['queued', 'installing', 'compiling', 'running'];
+
+// Runs one job's execution; `onPhase` reports progress through the job's lifecycle
+export type JobRunner = (options: ExecutionOptions, onPhase: (phase: JobPhase) => void) => Promise<ExecutionResult>;
+
+interface Job {
+  info: JobInfo;
+  chunks: JobOutputChunk[];
+  bufferedBytes: number;
+  subscribers: Set<JobOutputHandlers>;
+  controller: AbortController;
+  result: Promise<ExecutionResult>;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Tracks executions that run in the background. The latest `outputBuffer` bytes of output are
+ * buffered per job so they can be replayed by offset; older chunks are dropped, but offsets keep
+ * counting. Finished jobs are dropped after the retention period.
+ */
+export class JobManager {
+  private jobs = new Map<string, Job>();
+
+  constructor(
+    private readonly retention: number = DEFAULT_JOB_RETENTION,
+    private readonly outputBuffer: number = DEFAULT_JOB_OUTPUT_BUFFER
+  ) {}
+
+  submit(sessionId: string, options: ExecutionOptions, runner: JobRunner): string {
+    const jobId = uuidv4();
+    const controller = new AbortController();
+
+    // A caller-provided signal still cancels the job
+    if (options.signal?.aborted) {
+      controller.abort();
+    } else {
+      options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+
+    const stream = options.streamOutput;
+    const record = (name: JobOutputChunk['stream']) => (data: string) => {
+      this.append(job, name, data);
+      stream?.[name]?.(data);
+    };
+    const jobOptions: ExecutionOptions = {
+      ...options,
+      signal: controller.signal,
+      onQueuePosition: (position, queue) => {
+        job.info.queuePosition = position;
+        job.info.queue = queue;
+        options.onQueuePosition?.(position, queue);
+      },
+      streamOutput: {
+        ...stream,
+        stdout: record('stdout'),
+        stderr: record('stderr'),
+        dependencyStdout: record('dependencyStdout'),
+        dependencyStderr: record('dependencyStderr')
+      }
+    };
+    const onPhase = (phase: JobPhase) => {
+      // Phases only move forward (dependencies may be skipped, compilation may be cached)
+      if (PHASE_ORDER.indexOf(phase) > PHASE_ORDER.indexOf(job.info.status)) {
+        job.info.startedAt = job.info.startedAt ?? new Date();
+        job.info.status = phase;
+        delete job.info.queuePosition;
+        delete job.info.queue;
+      }
+    };
+
+    const job: Job = {
+      info: {
+        jobId,
+        sessionId,
+        status: 'queued',
+        submittedAt: new Date(),
+        startedAt: null,
+        finishedAt: null,
+        outputOffset: 0,
+        firstOutputOffset: 0
+      },
+      chunks: [],
+      bufferedBytes: 0,
+      subscribers: new Set(),
+      controller,
+      // Started on the next tick so submit() returns before any work happens
+      result: Promise.resolve().then(() => runner(jobOptions, onPhase))
+    };
+    this.jobs.set(jobId, job);
+
+    job.result.then(
+      () => this.finish(job, 'completed'),
+      (err) => this.finish(job, err instanceof ExecutionCancelledError ? 'cancelled' : 'failed', err)
+    );
+    return jobId;
+  }
+
+  getStatus(jobId: string): JobInfo {
+    return { ...this.getJob(jobId).info };
+  }
+
+  list(sessionId?: string): JobInfo[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !sessionId || job.info.sessionId === sessionId)
+      .map(job => ({ ...job.info }));
+  }
+
+  getOutput(jobId: string, fromOffset: number = 0): JobOutputChunk[] {
+    return this.bufferedFrom(this.getJob(jobId), fromOffset);
+  }
+
+  /**
+   * Replays buffered output from `fromOffset`, then delivers new chunks as they arrive.
+   * Returns a function that ends the subscription.
+   */
+  subscribe(jobId: string, handlers: JobOutputHandlers, fromOffset: number = 0): () => void {
+    const job = this.getJob(jobId);
+    for (const chunk of this.bufferedFrom(job, fromOffset)) {
+      handlers.onOutput(chunk);
+    }
+    if (this.isFinished(job.info.status)) {
+      handlers.onEnd?.({ ...job.info });
+      return () => {};
+    }
+    job.subscribers.add(handlers);
+    return () => {
+      job.subscribers.delete(handlers);
+    };
+  }
+
+  getResult(jobId: string): Promise<ExecutionResult> {
+    return this.getJob(jobId).result;
+  }
+
+  cancel(jobId: string): void {
+    const job = this.getJob(jobId);
+    if (!this.isFinished(job.info.status)) {
+      job.controller.abort();
+    }
+  }
+
+  // Cancels unfinished jobs and forgets all of them
+  clear(): void {
+    for (const job of this.jobs.values()) {
+      if (job.expiryTimer) clearTimeout(job.expiryTimer);
+      if (!this.isFinished(job.info.status)) job.controller.abort();
+    }
+    this.jobs.clear();
+  }
+
+  private getJob(jobId: string): Job {
+    const job = this.jobs.get(jobId);
+    if (!job) throw new JobNotFoundError(jobId);
+    return job;
+  }
+
+  private isFinished(status: JobStatus): boolean {
+    return status === 'completed' || status === 'failed' || status === 'cancelled';
+  }
+
+  // Chunks from `fromOffset` on; an offset that was already dropped starts at the oldest buffered chunk
+  private bufferedFrom(job: Job, fromOffset: number): JobOutputChunk[] {
+    return job.chunks.slice(Math.max(0, fromOffset - job.info.firstOutputOffset));
+  }
+
+  private append(job: Job, stream: JobOutputChunk['stream'], data: string): void {
+    if (!data) return;
+    const chunk: JobOutputChunk = { offset: job.info.outputOffset, stream, data };
+    job.chunks.push(chunk);
+    job.bufferedBytes += Buffer.byteLength(data);
+    job.info.outputOffset = chunk.offset + 1;
+    // The newest chunk is always kept, even when it alone exceeds the buffer
+    while (job.bufferedBytes > this.outputBuffer && job.chunks.length > 1) {
+      job.bufferedBytes -= Buffer.byteLength(job.chunks.shift()!.data);
+    }
+    job.info.firstOutputOffset = job.chunks[0].offset;
+    for (const subscriber of job.subscribers) {
+      try {
+        subscriber.onOutput(chunk);
+      } catch (err) {
+        console.error('Job output subscriber failed:', err);
+      }
+    }
+  }
+
+  private finish(job: Job, status: JobStatus, error?: unknown): void {
+    job.info.status = status;
+    job.info.finishedAt = new Date();
+    delete job.info.queuePosition;
+    delete job.info.queue;
+    if (error !== undefined) {
+      job.info.error = {
+        name: error instanceof Error ? error.name : 'Error',
+        code: error instanceof InterpreterToolsError ? error.code : undefined,
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    const subscribers = Array.from(job.subscribers);
+    job.subscribers.clear();
+    for (const subscriber of subscribers) {
+      subscriber.onEnd?.({ ...job.info });
+    }
+
+    job.expiryTimer = setTimeout(() => this.jobs.delete(job.info.jobId), this.retention);
+    job.expiryTimer.unref();
+  }
+}
@@ -0,0 +1,92 @@
+import { OutputComparison, ResourceUsage, TestCase, TestCaseResult, TestVerdict } from './types';
+
+// Above this many lines per side the diff only reports the first mismatch (LCS is quadratic)
+const MAX_DIFF_LINES = 2000;
+
+function normalize(output: string, comparison: OutputComparison): string {
+  if (comparison === 'exact') return output;
+  // Trailing whitespace on each line and trailing blank lines are not significant
+  return output.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').replace(/\n+$/, '');
+}
+
+/**
+ * Line diff of expected vs actual output: unchanged lines are prefixed with ' ',
+ * missing expected lines with '-' and unexpected actual lines with '+'.
+ */
+export function diffLines(expected: string, actual: string): string {
+  const a = expected.split('\n');
+  const b = actual.split('\n');
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) i++;
+    return `@@ first difference at line ${i + 1} @@\n-${a[i] ?? ''}\n+${b[i] ?? ''}`;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(` ${a[i++]}`);
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export interface CaseRun {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+  executionTime: number;
+  resourceUsage: ResourceUsage;
+}
+
+export function judgeTestCase(index: number, testCase: TestCase, run: CaseRun, comparison: OutputComparison): TestCaseResult {
+  let verdict: TestVerdict;
+  let diff: string | undefined;
+
+  if (run.timedOut) {
+    verdict = 'timeout';
+  } else if (run.resourceUsage.oomKilled) {
+    verdict = 'memory_limit_exceeded';
+  } else if (run.exitCode !== 0) {
+    verdict = 'runtime_error';
+  } else if (testCase.expectedStdout === undefined) {
+    verdict = 'pass';
+  } else {
+    const expected = normalize(testCase.expectedStdout, comparison);
+    const actual = normalize(run.stdout, comparison);
+    verdict = expected === actual ? 'pass' : 'wrong_answer';
+    if (verdict === 'wrong_answer') {
+      diff = diffLines(expected, actual);
+    }
+  }
+
+  return {
+    index,
+    name: testCase.name,
+    verdict,
+    stdout: run.stdout,
+    stderr: run.stderr,
+    exitCode: run.exitCode,
+    expectedStdout: testCase.expectedStdout,
+    diff,
+    executionTime: run.executionTime,
+    resourceUsage: run.resourceUsage
+  };
+}
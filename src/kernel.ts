@@ -0,0 +1,212 @@
+import Docker from 'dockerode';
+import { Duplex } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { v4 as uuidv4 } from 'uuid';
+import { ProtocolStreamParser } from './protocol-parser';
+import { MimeBundle } from './types';
+import { createExecTag, execTagEnv, killTaggedProcesses } from './process-control';
+import { KernelStartError } from './errors';
+
+const KERNEL_START_TIMEOUT = 30000;
+
+// Cell output is only streamed through the handlers, so callers decide how much of it to keep
+export interface KernelCellResult {
+  status: 'ok' | 'error';
+  value: string | null;  // repr of the cell's last expression, if any
+  outputs: MimeBundle[];
+  error?: { name: string; message: string };
+}
+
+interface KernelCellHandlers {
+  stdout?: (data: string) => void;
+  stderr?: (data: string) => void;
+  display?: (output: MimeBundle) => void;
+}
+
+interface PendingCell {
+  id: string;
+  outputs: MimeBundle[];
+  handlers: KernelCellHandlers;
+  resolve: (result: KernelCellResult) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * A long-lived interpreter process inside a container that runs code cells and keeps
+ * its state between them. Cells are sent as JSON lines on stdin; the kernel answers on
+ * stdout with marker-prefixed JSON lines mixed into the program's regular output.
+ */
+export class KernelSession {
+  private stream: Duplex | null = null;
+  private pid: number | null = null;
+  private alive = false;
+  private pending: PendingCell | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly parser = new ProtocolStreamParser(
+    (text) => this.emitStdout(text),
+    (message) => this.handleMessage(message)
+  );
+  private readonly tag = createExecTag();
+  private onReady: ((pid: number) => void) | null = null;
+
+  private constructor(
+    private readonly container: Docker.Container,
+    readonly language: string
+  ) {}
+
+  static async start(
+    container: Docker.Container,
+    language: string,
+    command: string[],
+    workingDir: string,
+    env: Record<string, string> = {}
+  ): Promise<KernelSession> {
+    const kernel = new KernelSession(container, language);
+    await kernel.launch(command, workingDir, env);
+    return kernel;
+  }
+
+  get isAlive(): boolean {
+    return this.alive;
+  }
+
+  private async launch(command: string[], workingDir: string, env: Record<string, string>): Promise<void> {
+    const exec = await this.container.exec({
+      Cmd: command,
+      AttachStdin: true,
+      AttachStdout: true,
+      AttachStderr: true,
+      WorkingDir: workingDir,
+      Env: [...Object.entries(env).map(([k, v]) => `${k}=${v}`), execTagEnv(this.tag)]
+    });
+    const stream = await exec.start({ hijack: true, stdin: true }) as Duplex;
+    this.stream = stream;
+    this.alive = true;
+
+    const stdoutDecoder = new StringDecoder('utf8');
+    const stderrDecoder = new StringDecoder('utf8');
+    let startupStderr = '';
+    this.container.modem.demuxStream(stream,
+      { write: (chunk: Buffer) => this.parser.push(stdoutDecoder.write(chunk)) },
+      {
+        write: (chunk: Buffer) => {
+          const data = stderrDecoder.write(chunk);
+          if (this.pending) {
+            this.pending.handlers.stderr?.(data);
+          } else {
+            startupStderr += data;
+          }
+        }
+      }
+    );
+
+    const ready = new Promise<number>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new KernelStartError(this.language, `did not start within ${KERNEL_START_TIMEOUT}ms`)), KERNEL_START_TIMEOUT);
+      stream.on('end', () => {
+        clearTimeout(timer);
+        reject(new KernelStartError(this.language, `exited during startup: ${startupStderr.trim()}`));
+      });
+      this.onReady = (pid) => {
+        clearTimeout(timer);
+        resolve(pid);
+      };
+    });
+
+    const onExit = () => {
+      this.alive = false;
+      // Finish the running cell with what it printed so far instead of losing its output
+      const cell = this.pending;
+      if (cell) {
+        this.pending = null;
+        cell.resolve({
+          status: 'error',
+          value: null,
+          outputs: cell.outputs,
+          error: { name: 'KernelExited', message: `Kernel for ${this.language} exited while running the cell` }
+        });
+      }
+    };
+    stream.on('end', onExit);
+    stream.on('close', onExit);
+
+    try {
+      this.pid = await ready;
+    } catch (err) {
+      await this.shutdown();
+      throw err;
+    }
+  }
+
+  private emitStdout(data: string): void {
+    if (!data || !this.pending) return;
+    this.pending.handlers.stdout?.(data);
+  }
+
+  private handleMessage(message: any): void {
+    switch (message.type) {
+      case 'ready':
+        this.onReady?.(message.pid);
+        this.onReady = null;
+        break;
+      case 'display':
+        if (this.pending) {
+          this.pending.outputs.push(message.data);
+          this.pending.handlers.display?.(message.data);
+        }
+        break;
+      case 'result': {
+        const cell = this.pending;
+        if (!cell || cell.id !== message.id) return;
+        this.pending = null;
+        if (message.status === 'error' && message.error?.traceback) {
+          cell.handlers.stderr?.(message.error.traceback);
+        }
+        cell.resolve({
+          status: message.status,
+          value: message.value ?? null,
+          outputs: cell.outputs,
+          error: message.error ? { name: message.error.name, message: message.error.message } : undefined
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Runs one cell. Cells are queued, so concurrent calls run one after another.
+   */
+  run(code: string, handlers: KernelCellHandlers = {}): Promise<KernelCellResult> {
+    const next = this.queue.then(() => new Promise<KernelCellResult>((resolve, reject) => {
+      if (!this.alive || !this.stream) {
+        reject(new KernelStartError(this.language, 'is not running'));
+        return;
+      }
+      const id = uuidv4();
+      this.pending = { id, outputs: [], handlers, resolve, reject };
+      this.stream.write(JSON.stringify({ id, code }) + '\n');
+    }));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Sends SIGINT to the kernel process, which aborts the running cell but keeps the state.
+   */
+  async interrupt(): Promise<void> {
+    if (!this.alive || this.pid === null) return;
+    const exec = await this.container.exec({ Cmd: ['kill', '-INT', String(this.pid)], AttachStdout: true, AttachStderr: true });
+    const stream = await exec.start({ hijack: true, stdin: false });
+    await new Promise<void>((resolve) => {
+      stream.on('end', resolve);
+      stream.resume();
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    this.alive = false;
+    try {
+      this.stream?.end();
+    } catch {}
+    await killTaggedProcesses(this.container, this.tag);
+  }
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LanguageConfig, LanguageRegistry } from './languages';
+import { LanguageDetectionError } from './errors';
+import { ExecutionOptions, Language, LanguageDetection, MountOptions } from './types';
+
+export interface DetectionInput {
+  code: string;          // Source to inspect for a shebang and characteristic constructs
+  entryFile?: string;    // File name whose extension identifies the language
+  projectFiles: string[]; // Names of the files next to the program, e.g. package.json
+}
+
+// Only the start of large sources is inspected
+const MAX_INSPECTED_CODE = 64 * 1024;
+
+// Interpreter of a `#!` line without directory and version suffix: `#!/usr/bin/env -S python3.12 -u` -> python
+function shebangInterpreter(code: string): string | undefined {
+  const match = /^#!\s*(\S+)(.*)$/m.exec(code.split('\n', 1)[0]);
+  if (!match) return undefined;
+  let program = path.posix.basename(match[1]);
+  if (program === 'env') {
+    program = match[2].trim().split(/\s+/).find(arg => !arg.startsWith('-')) ?? '';
+  }
+  return program.replace(/[\d.]+$/, '') || undefined;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const markerScore = (cfg: LanguageConfig, projectFiles: Set<string>) =>
+  (cfg.detection?.markerFiles ?? []).filter(file => projectFiles.has(file)).length;
+
+const patternScore = (cfg: LanguageConfig, code: string) =>
+  (cfg.detection?.patterns ?? []).filter(pattern => pattern.test(code)).length;
+
+/**
+ * Picks the language of a program among the registered languages. Evidence is tried from strongest
+ * to weakest: the shebang, the entry file extension, project marker files, then code patterns.
+ * When several languages match, marker files and then code patterns break the tie, and the
+ * language registered first wins a remaining tie.
+ */
+export function detectLanguage(input: DetectionInput): LanguageDetection {
+  const code = input.code.slice(0, MAX_INSPECTED_CODE);
+  const projectFiles = new Set(input.projectFiles);
+  const candidates = LanguageRegistry.list().filter(cfg => cfg.detection);
+
+  const rank = (configs: LanguageConfig[]) => configs
+    .map((cfg, order) => ({ cfg, order, markers: markerScore(cfg, projectFiles), patterns: patternScore(cfg, code) }))
+    .sort((a, b) => b.markers - a.markers || b.patterns - a.patterns || a.order - b.order);
+
+  // Confidence is `unique` for a single match, lower when a tie had to be broken
+  const choose = (matches: LanguageConfig[], method: LanguageDetection['method'], unique: number): LanguageDetection => {
+    const [best, second] = rank(matches);
+    const clearWinner = !second || best.markers > second.markers || best.patterns > second.patterns;
+    return { language: best.cfg.language as Language, confidence: clearWinner ? unique : round(unique - 0.2), method };
+  };
+
+  const interpreter = shebangInterpreter(code);
+  if (interpreter) {
+    const matches = candidates.filter(cfg => cfg.detection!.interpreters?.includes(interpreter));
+    if (matches.length > 0) return choose(matches, 'shebang', 0.95);
+  }
+
+  if (input.entryFile) {
+    const extension = path.posix.extname(input.entryFile).toLowerCase();
+    const matches = candidates.filter(cfg => extension && cfg.detection!.extensions?.includes(extension));
+    if (matches.length > 0) return choose(matches, 'extension', 0.9);
+  }
+
+  const withMarkers = candidates.filter(cfg => markerScore(cfg, projectFiles) > 0);
+  if (withMarkers.length > 0) return choose(withMarkers, 'markers', 0.8);
+
+  const ranked = rank(candidates).filter(entry => entry.patterns > 0);
+  if (ranked.length > 0) {
+    const [best, second] = ranked;
+    // Heuristics alone are never certain; the margin over the runner-up raises the confidence
+    const margin = (best.patterns - (second?.patterns ?? 0)) / best.patterns;
+    return { language: best.cfg.language as Language, confidence: round(0.3 + 0.4 * margin), method: 'heuristics' };
+  }
+
+  throw new LanguageDetectionError();
+}
+
+/**
+ * Builds the detection input of an execution: inline code with its `files`, or the entry file
+ * of a runApp execution read from the mount that backs its working directory.
+ */
+export function detectLanguageForExecution(options: ExecutionOptions, mounts: MountOptions[] = []): LanguageDetection {
+  if (options.runApp) {
+    const mount = mounts.find(m => m.target === options.runApp!.cwd);
+    let code = '';
+    let projectFiles: string[] = [];
+    if (mount) {
+      try {
+        code = fs.readFileSync(path.join(mount.source, options.runApp.entryFile), 'utf8');
+      } catch {}
+      try {
+        projectFiles = fs.readdirSync(mount.source);
+      } catch {}
+    }
+    return detectLanguage({ code, entryFile: options.runApp.entryFile, projectFiles });
+  }
+
+  const files = options.files ?? {};
+  const entryContent = options.entryFile !== undefined ? files[options.entryFile] : undefined;
+  return detectLanguage({
+    code: entryContent !== undefined ? entryContent.toString() : options.code,
+    entryFile: options.entryFile,
+    projectFiles: Object.keys(files).map(file => path.posix.normalize(file)).filter(file => !file.includes('/'))
+  });
+}
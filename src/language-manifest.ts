@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { LanguageConfig, LanguageRegistry, runInstallScript, shellQuote } from './languages';
+import { LanguageManifestError } from './errors';
+import { ExecutionOptions } from './types';
+
+const MANIFEST_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+// Placeholders each kind of template may use
+const COMMAND_PLACEHOLDERS = ['entryFile', 'codeFilename', 'dependencies', 'compileFlags'];
+const FILE_PLACEHOLDERS = ['code', 'codeFilename', 'dependencies'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const placeholders = (template: string) => Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+
+const template = (allowed: string[]) => z.string().min(1).superRefine((value, ctx) => {
+  for (const name of placeholders(value)) {
+    if (!allowed.includes(name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `unknown placeholder {{${name}}} (allowed: ${allowed.join(', ')})` });
+    }
+  }
+});
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const relativePath = z.string().regex(/^(?!\/)(?!.*(^|\/)\.\.(\/|$))[\w./-]+$/, 'must be a relative path without ".."');
+
+const languageManifestSchema = z.object({
+  language: z.string().regex(/^[a-z0-9][a-z0-9_+-]*$/, 'must consist of lowercase letters, digits, "_", "+" and "-"'),
+  image: z.string().min(1),
+  versions: z.record(z.string().min(1)).optional(),
+  codeFilename: relativePath,
+  commands: z.object({
+    inline: template(COMMAND_PLACEHOLDERS),
+    runApp: template(COMMAND_PLACEHOLDERS).optional(),
+    install: template(COMMAND_PLACEHOLDERS).optional(),
+    compile: template(COMMAND_PLACEHOLDERS).optional()
+  }).strict(),
+  compileTimeout: z.number().int().positive().optional(),
+  files: z.record(z.union([
+    z.string(),
+    z.object({
+      content: z.string(),
+      onlyWithDependencies: z.boolean().optional()
+    }).strict()
+  ])).optional(),
+  env: z.record(z.string()).optional(),
+  detection: z.object({
+    interpreters: z.array(z.string().min(1)).optional(),
+    extensions: z.array(z.string().regex(/^\.[\w.+-]+$/, 'must start with "."')).optional(),
+    markerFiles: z.array(z.string().min(1)).optional(),
+    patterns: z.array(z.string().refine(isValidPattern, 'must be a valid regular expression')).optional()
+  }).strict().optional()
+}).strict().superRefine((manifest, ctx) => {
+  for (const file of Object.keys(manifest.files ?? {})) {
+    if (!relativePath.safeParse(file).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['files', file], message: 'must be a relative path without ".."' });
+    }
+    const value = manifest.files![file];
+    const content = typeof value === 'string' ? value : value.content;
+    for (const name of placeholders(content)) {
+      if (!FILE_PLACEHOLDERS.includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['files', file],
+          message: `unknown placeholder {{${name}}} (allowed: ${FILE_PLACEHOLDERS.join(', ')})`
+        });
+      }
+    }
+  }
+});
+
+// A language described as data; see the README for the meaning of each field and placeholder
+export type LanguageManifest = z.infer<typeof languageManifestSchema>;
+
+const render = (template: string, values: Record<string, string>) =>
+  template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => values[name] ?? '');
+
+// Values for command templates; paths and lists are shell-quoted
+const commandValues = (manifest: LanguageManifest, entryFile: string, options: ExecutionOptions) => ({
+  entryFile: shellQuote(entryFile),
+  codeFilename: shellQuote(manifest.codeFilename),
+  dependencies: (options.dependencies ?? []).map(shellQuote).join(' '),
+  compileFlags: (options.compileFlags ?? []).map(shellQuote).join(' ')
+});
+
+/**
+ * Builds a LanguageConfig from a validated manifest. Commands run through `sh -c` in the
+ * working directory; `install` only runs when the execution has dependencies.
+ */
+export function languageConfigFromManifest(manifest: LanguageManifest): LanguageConfig {
+  const { commands } = manifest;
+  const command = (template: string, entryFile: string, options: ExecutionOptions) =>
+    ['sh', '-c', render(template, commandValues(manifest, entryFile, options))];
+
+  return {
+    language: manifest.language,
+    defaultImage: manifest.image,
+    versions: manifest.versions,
+    codeFilename: manifest.codeFilename,
+    prepareFiles: (options, dir) => {
+      const target = path.join(dir, manifest.codeFilename);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, options.code);
+
+      const values = {
+        code: options.code,
+        codeFilename: manifest.codeFilename,
+        dependencies: (options.dependencies ?? []).join('\n')
+      };
+      for (const [file, value] of Object.entries(manifest.files ?? {})) {
+        const { content, onlyWithDependencies } = typeof value === 'string' ? { content: value, onlyWithDependencies: false } : value;
+        if (onlyWithDependencies && !options.dependencies?.length) continue;
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), render(content, values));
+      }
+    },
+    buildInlineCommand: (_depsInstalled, options) => command(commands.inline, manifest.codeFilename, options),
+    buildRunAppCommand: (entry, _depsInstalled, options) => command(commands.runApp ?? commands.inline, entry, options),
+    ...(commands.install ? {
+      installDependencies: async (container, options) => {
+        if (!options.dependencies?.length) {
+          return { stdout: '', stderr: '', exitCode: 0 };
+        }
+        const entry = options.runApp?.entryFile ?? options.entryFile ?? manifest.codeFilename;
+        return runInstallScript(container, options, render(commands.install!, commandValues(manifest, entry, options)));
+      }
+    } : {}),
+    ...(commands.compile ? {
+      compile: {
+        buildCommand: (entry, options) => command(commands.compile!, entry, options),
+        timeout: manifest.compileTimeout
+      }
+    } : {}),
+    ...(manifest.env ? { runtimeEnv: manifest.env } : {}),
+    ...(manifest.detection ? {
+      detection: {
+        ...manifest.detection,
+        // Multiline, so ^ and $ match at line boundaries like in the built-in patterns
+        patterns: manifest.detection.patterns?.map(pattern => new RegExp(pattern, 'm'))
+      }
+    } : {})
+  };
+}
+
+// Reads and validates one JSON or YAML manifest file
+export function loadLanguageManifest(file: string): LanguageConfig {
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    raw = path.extname(file) === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new LanguageManifestError(file, err instanceof Error ? err.message : String(err), err);
+  }
+
+  const parsed = languageManifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new LanguageManifestError(file, issues.join('; '));
+  }
+  return languageConfigFromManifest(parsed.data);
+}
+
+/**
+ * Loads every manifest in `paths` (files, or directories whose .json/.yaml/.yml files are read
+ * in name order) and registers the languages. All manifests are validated before any is registered.
+ */
+export function registerLanguageManifests(paths: string[]): LanguageConfig[] {
+  const files = paths.flatMap(p => {
+    if (!fs.existsSync(p)) {
+      throw new LanguageManifestError(p, 'no such file or directory');
+    }
+    if (!fs.statSync(p).isDirectory()) return [p];
+    return fs.readdirSync(p)
+      .filter(name => MANIFEST_EXTENSIONS.includes(path.extname(name)))
+      .sort()
+      .map(name => path.join(p, name));
+  });
+
+  const configs = files.map(loadLanguageManifest);
+  for (const config of configs) {
+    LanguageRegistry.register(config);
+  }
+  return configs;
+}
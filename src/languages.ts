@@ -1,17 +1,40 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ExecutionOptions } from './types';
+import { DenoPermissions, ExecutionOptions } from './types';
 import Docker from 'dockerode';
 import { Duplex } from 'stream';
+import { CONTAINER_RUNTIME_DIR, PYTHON_DISPLAY_ENV } from './runtime-files';
+import { InvalidOptionsError, UnsupportedLanguageError, UnsupportedVersionError } from './errors';
 
 export interface LanguageConfig {
   language: string;
   defaultImage: string;
+  // Selectable runtime versions mapped to their images; ExecutionOptions.version picks one
+  versions?: Record<string, string>;
   codeFilename: string;
   prepareFiles: (options: ExecutionOptions, tempDir: string) => void;
-  buildInlineCommand: (depsInstalled: boolean) => string[];
-  buildRunAppCommand: (entryFile: string, depsInstalled: boolean) => string[];
+  buildInlineCommand: (depsInstalled: boolean, options: ExecutionOptions) => string[];
+  buildRunAppCommand: (entryFile: string, depsInstalled: boolean, options: ExecutionOptions) => string[];
   installDependencies?: (container: Docker.Container, options: ExecutionOptions) => Promise<{ stdout: string; stderr: string; exitCode: number }>;
+  // Extra environment for the program's process (run and kernel), e.g. to enable runtime helpers
+  runtimeEnv?: Record<string, string>;
+  // Build step for compiled languages. The command writes its artifacts to $IT_BUILD_DIR, which the
+  // run commands then execute; builds are cached per workspace by source hash.
+  compile?: {
+    buildCommand: (entryFile: string, options: ExecutionOptions) => string[];
+    timeout?: number;  // Default compile time limit in ms; ExecutionOptions.compileTimeout overrides it
+  };
+  // Evidence for detecting the language when ExecutionOptions.language is omitted
+  detection?: {
+    interpreters?: string[];  // Shebang interpreter names without version suffix, e.g. 'python' for python3.12
+    extensions?: string[];    // Entry file extensions including the dot
+    markerFiles?: string[];   // Project files next to the program, e.g. 'go.mod'
+    patterns?: RegExp[];      // Constructs typical of the language's source; each match counts once
+  };
+  // Long-lived interpreter for executionMode 'kernel'; the command must speak the kernel protocol (see runtime-files.ts)
+  kernel?: {
+    command: string[];
+  };
 }
 
 const jsTsPrepare = (options: ExecutionOptions, tempDir: string, filename: string) => {
@@ -48,11 +71,181 @@ const jsTsPrepare = (options: ExecutionOptions, tempDir: string, filename: strin
   fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
 };
 
+// Quotes a value for use inside an `sh -c` script
+export const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const compileFlags = (options: ExecutionOptions) => (options.compileFlags ?? []).map(shellQuote).join(' ');
+
+// Runs an installer script in the working directory of the execution and captures its output
+export const runInstallScript = async (container: Docker.Container, options: ExecutionOptions, cmd: string) => {
+  const exec = await container.exec({ Cmd: ['sh', '-c', cmd], AttachStdout: true, AttachStderr: true, WorkingDir: options.runApp?.cwd || '/workspace' });
+  const stream = await exec.start({ hijack: true, stdin: false });
+  let out = '';
+  let err = '';
+  await new Promise<void>(resolve => {
+    container.modem.demuxStream(stream as Duplex,
+      { write: (c: Buffer) => { out += c.toString(); } },
+      { write: (c: Buffer) => { err += c.toString(); } }
+    );
+    stream.on('end', resolve);
+  });
+  const info = await exec.inspect();
+  return { stdout: out, stderr: err, exitCode: typeof info.ExitCode === 'number' ? info.ExitCode : 1 };
+};
+
+/**
+ * Source files to compile for C, C++ and single-file Java: inline runs use the entry file plus
+ * matching entries of `files`, runApp builds every matching file next to the entry file.
+ */
+const sourceFileArgs = (entry: string, options: ExecutionOptions, extensions: string[]) => {
+  if (options.runApp) {
+    const names = extensions.map(ext => `-name '*${ext}'`).join(' -o ');
+    return `$(find ${shellQuote(path.posix.dirname(entry))} \\( ${names} \\) -not -path '*/.interpreter-tools/*')`;
+  }
+  const extra = Object.keys(options.files ?? {})
+    .filter(file => extensions.some(ext => file.endsWith(ext)) && path.posix.normalize(file) !== entry);
+  return [entry, ...extra].map(shellQuote).join(' ');
+};
+
+// Fully qualified main class of a Java source file: its package plus the file name
+const javaMainClass = (entry: string) =>
+  `$(sed -n 's/^[[:space:]]*package[[:space:]]*\\([^;[:space:]]*\\).*/\\1./p' ${shellQuote(entry)} | head -n 1)$(basename ${shellQuote(entry)} .java)`;
+
+const javaRunCommand = (entry: string) => [
+  'sh', '-c', `exec java -cp "$IT_BUILD_DIR/classes:$IT_BUILD_DIR/lib/*" "${javaMainClass(entry)}"`
+];
+
+const cPrepare = (options: ExecutionOptions, dir: string, filename: string) => {
+  fs.writeFileSync(path.join(dir, filename), options.code);
+};
+
+const cFamily = (
+  language: 'c' | 'cpp', compiler: string, codeFilename: string, extensions: string[], defaultFlags: string, patterns: RegExp[]
+): LanguageConfig => ({
+  language,
+  defaultImage: 'gcc:13',
+  versions: { '12': 'gcc:12', '13': 'gcc:13', '14': 'gcc:14' },
+  codeFilename,
+  detection: { extensions, patterns },
+  prepareFiles: (options, dir) => cPrepare(options, dir, codeFilename),
+  compile: {
+    // Linker flags such as -lm go after the sources so the linker can resolve them
+    buildCommand: (entry, options) => [
+      'sh', '-c', `${compiler} ${defaultFlags} -I. -o "$IT_BUILD_DIR/app" ${sourceFileArgs(entry, options, extensions)} ${compileFlags(options)}`
+    ],
+    timeout: 60000
+  },
+  buildInlineCommand: () => ['sh', '-c', 'exec "$IT_BUILD_DIR/app"'],
+  buildRunAppCommand: () => ['sh', '-c', 'exec "$IT_BUILD_DIR/app"'],
+  installDependencies: async (container, options) => {
+    // Dependencies are Debian packages, typically -dev libraries to link against
+    if (!options.dependencies?.length) {
+      return { stdout: '', stderr: '', exitCode: 0 };
+    }
+    const packages = options.dependencies.map(shellQuote).join(' ');
+    return runInstallScript(container, options,
+      `apt-get update -qq && DEBIAN_FRONTEND=noninteractive apt-get install -y -qq --no-install-recommends ${packages}`);
+  }
+});
+
+const cargoToml = (dependencies: string[]) => [
+  '[package]',
+  'name = "app"',
+  'version = "0.1.0"',
+  'edition = "2021"',
+  '',
+  '[[bin]]',
+  'name = "app"',
+  'path = "main.rs"',
+  '',
+  '[dependencies]',
+  ...dependencies.map(dep => {
+    const [name, version] = dep.split('@');
+    return `${name} = ${JSON.stringify(version || '*')}`;
+  }),
+  ''
+].join('\n');
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Maven 3 no longer resolves LATEST or RELEASE for dependencies, so every coordinate needs its version
+const mavenDependency = (dep: string) => {
+  const parts = dep.split(':');
+  if (parts.length !== 3 || parts.some(part => !part.trim())) {
+    throw new InvalidOptionsError(`Invalid Java dependency: ${dep}; expected groupId:artifactId:version`);
+  }
+  const [groupId, artifactId, version] = parts.map(part => escapeXml(part.trim()));
+  return `    <dependency><groupId>${groupId}</groupId><artifactId>${artifactId}</artifactId><version>${version}</version></dependency>`;
+};
+
+const pomXml = (dependencies: string[]) => `<project xmlns="http://maven.apache.org/POM/4.0.0">
+  <modelVersion>4.0.0</modelVersion>
+  <groupId>code</groupId>
+  <artifactId>execution</artifactId>
+  <version>1.0.0</version>
+  <properties>
+    <maven.compiler.release>21</maven.compiler.release>
+    <project.build.sourceEncoding>UTF-8</project.build.sourceEncoding>
+  </properties>
+  <dependencies>
+${dependencies.map(mavenDependency).join('\n')}
+  </dependencies>
+  <build>
+    <sourceDirectory>.</sourceDirectory>
+  </build>
+</project>
+`;
+
+// Without an explicit policy Deno programs may only read and write their working directory
+const DEFAULT_DENO_PERMISSIONS: DenoPermissions = { read: ['.'], write: ['.'] };
+
+const denoPermissionFlags = (permissions: DenoPermissions | 'all' = DEFAULT_DENO_PERMISSIONS) => {
+  if (permissions === 'all') return '--allow-all';
+  return Object.entries(permissions)
+    .filter(([, value]) => value === true || (Array.isArray(value) && value.length > 0))
+    // The whole flag is quoted: permission names come from caller-supplied objects just like the hosts and paths
+    .map(([name, value]) => shellQuote(value === true ? `--allow-${name}` : `--allow-${name}=${(value as string[]).join(',')}`))
+    .join(' ');
+};
+
+// npm: and jsr: dependencies become bare-specifier imports in deno.json; URLs are imported as-is
+const denoConfig = (dependencies: string[]) => {
+  const imports: Record<string, string> = {};
+  for (const dep of dependencies) {
+    const match = /^(?:npm|jsr):(@?[^@]+)/.exec(dep);
+    if (match) imports[match[1]] = dep;
+  }
+  return { imports };
+};
+
+const denoRunCommand = (entry: string, options: ExecutionOptions) => [
+  'sh', '-c', `exec deno run --no-prompt ${denoPermissionFlags(options.denoPermissions)} ${shellQuote(entry)}`
+];
+
+// Code patterns shared by the JavaScript-family languages; the runtimes add their own APIs
+const jsPatterns = [
+  /\bconsole\.log\s*\(/, /\brequire\s*\(\s*['"]/, /^\s*(const|let)\s+\w+\s*=/m, /=>/, /\bfunction\s+\w+\s*\(/,
+  /^\s*import\s+.+\s+from\s+['"]/m
+];
+const typeAnnotationPatterns = [
+  /\w\s*:\s*(string|number|boolean|any|unknown|void)(\[\])?\b/, /^\s*(export\s+)?interface\s+\w+/m, /^\s*(export\s+)?type\s+\w+\s*=/m
+];
+
+const nodeVersions = { '18': 'node:18-alpine', '20': 'node:20-alpine', '22': 'node:22-alpine' };
+
 export const defaultLanguageConfigs: LanguageConfig[] = [
   {
     language: 'javascript',
     defaultImage: 'node:18-alpine',
+    versions: nodeVersions,
     codeFilename: 'code.js',
+    detection: {
+      interpreters: ['node'],
+      extensions: ['.js', '.mjs', '.cjs'],
+      markerFiles: ['package.json'],
+      patterns: jsPatterns
+    },
     prepareFiles: (options, dir) => jsTsPrepare(options, dir, 'code.js'),
     buildInlineCommand: (_depsInstalled) => [
       'sh', '-c', 'node code.js'
@@ -60,15 +253,16 @@ export const defaultLanguageConfigs: LanguageConfig[] = [
     buildRunAppCommand: (entry, _depsInstalled) => [
       'sh', '-c', `node ${entry}`
     ],
+    kernel: {
+      command: ['node', `${CONTAINER_RUNTIME_DIR}/kernels/javascript_kernel.js`]
+    },
     installDependencies: async (container, options) => {
       // When a package.json exists we run a full install. Otherwise we add the listed dependencies directly.
-      const deps = (options.dependencies ?? []).join(' ');
+      const deps = (options.dependencies ?? []).map(shellQuote).join(' ');
       // npm is always present in the Node image – yarn may not be.
       const cmd = `if [ -f package.json ]; then \
-          (command -v yarn >/dev/null 2>&1 && yarn install --ignore-scripts --non-interactive || npm install --no-audit --no-fund); \
-        elif [ ! -z \"${deps}\" ]; then \
-          npm init -y >/dev/null 2>&1 && npm install --no-audit --no-fund ${deps}; \
-        fi`;
+          (command -v yarn >/dev/null 2>&1 && yarn install --ignore-scripts --non-interactive || npm install --ignore-scripts --no-audit --no-fund); \
+        ${deps ? `else npm init -y >/dev/null 2>&1 && npm install --ignore-scripts --no-audit --no-fund -- ${deps}; ` : ''}fi`;
       const exec = await container.exec({ Cmd: ['sh', '-c', cmd], AttachStdout: true, AttachStderr: true, WorkingDir: options.runApp?.cwd || '/workspace' });
       const stream = await exec.start({ hijack: true, stdin: false });
       let out = '';
@@ -87,7 +281,14 @@ export const defaultLanguageConfigs: LanguageConfig[] = [
   {
     language: 'typescript',
     defaultImage: 'node:18-alpine',
+    versions: nodeVersions,
     codeFilename: 'code.ts',
+    detection: {
+      interpreters: ['ts-node', 'tsx'],
+      extensions: ['.ts', '.mts', '.cts'],
+      markerFiles: ['tsconfig.json', 'package.json'],
+      patterns: [...jsPatterns, ...typeAnnotationPatterns]
+    },
     prepareFiles: (options, dir) => jsTsPrepare(options, dir, 'code.ts'),
     buildInlineCommand: (_depsInstalled: boolean) => [
       'sh', '-c', 'npx ts-node code.ts'
@@ -96,12 +297,10 @@ export const defaultLanguageConfigs: LanguageConfig[] = [
       'sh', '-c', `npx ts-node ${entry}`
     ],
     installDependencies: async (container, options) => {
-      const deps = (options.dependencies ?? []).join(' ');
+      const deps = (options.dependencies ?? []).map(shellQuote).join(' ');
       const cmd = `if [ -f package.json ]; then \
-          (command -v yarn >/dev/null 2>&1 && yarn install --ignore-scripts --non-interactive || npm install --no-audit --no-fund); \
-        elif [ ! -z \"${deps}\" ]; then \
-          npm init -y >/dev/null 2>&1 && npm install --no-audit --no-fund ${deps}; \
-        fi`;
+          (command -v yarn >/dev/null 2>&1 && yarn install --ignore-scripts --non-interactive || npm install --ignore-scripts --no-audit --no-fund); \
+        ${deps ? `else npm init -y >/dev/null 2>&1 && npm install --ignore-scripts --no-audit --no-fund -- ${deps}; ` : ''}fi`;
       const exec = await container.exec({ Cmd: ['sh', '-c', cmd], AttachStdout: true, AttachStderr: true, WorkingDir: options.runApp?.cwd || '/workspace' });
       const stream = await exec.start({ hijack: true, stdin: false });
       let out = '';
@@ -120,7 +319,23 @@ export const defaultLanguageConfigs: LanguageConfig[] = [
   {
     language: 'python',
     defaultImage: 'python:3.9-slim',
+    versions: {
+      '3.9': 'python:3.9-slim',
+      '3.10': 'python:3.10-slim',
+      '3.11': 'python:3.11-slim',
+      '3.12': 'python:3.12-slim',
+      '3.13': 'python:3.13-slim'
+    },
     codeFilename: 'code.py',
+    detection: {
+      interpreters: ['python'],
+      extensions: ['.py'],
+      markerFiles: ['requirements.txt', 'pyproject.toml', 'setup.py', 'Pipfile'],
+      patterns: [
+        /^\s*def\s+\w+\s*\(.*\)\s*(->\s*[^:]+)?:\s*$/m, /^\s*(from\s+[\w.]+\s+)?import\s+[\w., ]+$/m,
+        /\bprint\s*\(/, /^if\s+__name__\s*==/m, /\belif\b/, /\bself\./
+      ]
+    },
     prepareFiles: (options, dir) => {
       fs.writeFileSync(path.join(dir, 'code.py'), options.code);
       if (options.dependencies?.length) {
@@ -133,6 +348,10 @@ export const defaultLanguageConfigs: LanguageConfig[] = [
     buildRunAppCommand: (entry, _depsInstalled: boolean) => [
       'sh', '-c', `py=$(command -v python3 || command -v python) && $py -u ${entry}`
     ],
+    runtimeEnv: PYTHON_DISPLAY_ENV,
+    kernel: {
+      command: ['sh', '-c', `py=$(command -v python3 || command -v python) && exec $py -u ${CONTAINER_RUNTIME_DIR}/kernels/python_kernel.py`]
+    },
     installDependencies: async (container, options) => {
       const cmd = 'if [ -f requirements.txt ]; then pip install -r requirements.txt; fi';
       const exec = await container.exec({ Cmd: ['sh', '-c', cmd], AttachStdout: true, AttachStderr: true, WorkingDir: options.runApp?.cwd || '/workspace' });
@@ -154,6 +373,11 @@ export const defaultLanguageConfigs: LanguageConfig[] = [
     language: 'shell',
     defaultImage: 'alpine:latest',
     codeFilename: 'code.sh',
+    detection: {
+      interpreters: ['sh', 'bash', 'ash', 'dash', 'zsh'],
+      extensions: ['.sh', '.bash'],
+      patterns: [/^\s*(echo|export|cd|ls|grep|cat|apk)\s/m, /^\s*(fi|done|esac)\s*$/m, /^\s*if\s+\[/m, /\$\{?\w+\}?/]
+    },
     prepareFiles: (options, dir) => {
       const filepath = path.join(dir, 'code.sh');
       fs.writeFileSync(filepath, options.code);
@@ -229,6 +453,187 @@ export const defaultLanguageConfigs: LanguageConfig[] = [
       const installInfo = await installExec.inspect();
       return { stdout: installOutput, stderr: '', exitCode: typeof installInfo.ExitCode === 'number' ? installInfo.ExitCode : 1 };
     }
+  },
+  {
+    language: 'go',
+    defaultImage: 'golang:1.22-alpine',
+    versions: { '1.21': 'golang:1.21-alpine', '1.22': 'golang:1.22-alpine', '1.23': 'golang:1.23-alpine' },
+    codeFilename: 'main.go',
+    detection: {
+      extensions: ['.go'],
+      markerFiles: ['go.mod'],
+      patterns: [/^package\s+\w+\s*$/m, /\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\s*\(/, /:=/, /\bfmt\.\w+\(/]
+    },
+    prepareFiles: (options, dir) => {
+      fs.writeFileSync(path.join(dir, 'main.go'), options.code);
+    },
+    compile: {
+      // Builds the package that contains the entry file; a module is created when there is none
+      buildCommand: (entry, options) => [
+        'sh', '-c', `([ -f go.mod ] || go mod init main >/dev/null 2>&1) && go build ${compileFlags(options)} -o "$IT_BUILD_DIR/app" ./${shellQuote(path.posix.dirname(entry))}`
+      ],
+      timeout: 120000
+    },
+    buildInlineCommand: () => ['sh', '-c', 'exec "$IT_BUILD_DIR/app"'],
+    buildRunAppCommand: () => ['sh', '-c', 'exec "$IT_BUILD_DIR/app"'],
+    installDependencies: async (container, options) => {
+      // Dependencies are module paths with an optional @version; `go mod tidy` also resolves anything imported but not listed
+      const gets = (options.dependencies ?? []).map(dep => `go get ${shellQuote(dep)}`).join(' && ');
+      const cmd = `([ -f go.mod ] || go mod init main) && ${gets ? `${gets} && ` : ''}go mod tidy`;
+      return runInstallScript(container, options, cmd);
+    }
+  },
+  {
+    language: 'rust',
+    defaultImage: 'rust:1.77-slim',
+    versions: { '1.77': 'rust:1.77-slim', '1.80': 'rust:1.80-slim', '1.83': 'rust:1.83-slim' },
+    codeFilename: 'main.rs',
+    detection: {
+      extensions: ['.rs'],
+      markerFiles: ['Cargo.toml'],
+      patterns: [/\bfn\s+main\s*\(\)/, /\blet\s+mut\b/, /\bprintln!\s*\(/, /^\s*use\s+\w+::/m]
+    },
+    prepareFiles: (options, dir) => {
+      fs.writeFileSync(path.join(dir, 'main.rs'), options.code);
+      // Inline code with dependencies becomes a Cargo project whose binary is main.rs
+      if (options.dependencies?.length) {
+        fs.writeFileSync(path.join(dir, 'Cargo.toml'), cargoToml(options.dependencies));
+      }
+    },
+    compile: {
+      // Cargo projects build with cargo, single files with rustc
+      buildCommand: (entry, options) => [
+        'sh', '-c', `if [ -f Cargo.toml ]; then cargo build --release --quiet --target-dir "$IT_BUILD_DIR/target"; ` +
+          `else rustc -O ${compileFlags(options)} -o "$IT_BUILD_DIR/app" ${shellQuote(entry)}; fi`
+      ],
+      timeout: 300000
+    },
+    buildInlineCommand: () => [
+      'sh', '-c', '[ -f Cargo.toml ] && exec cargo run --release --quiet --target-dir "$IT_BUILD_DIR/target" -- "$@"; exec "$IT_BUILD_DIR/app"'
+    ],
+    buildRunAppCommand: () => [
+      'sh', '-c', '[ -f Cargo.toml ] && exec cargo run --release --quiet --target-dir "$IT_BUILD_DIR/target" -- "$@"; exec "$IT_BUILD_DIR/app"'
+    ],
+    installDependencies: async (container, options) => {
+      return runInstallScript(container, options, 'if [ -f Cargo.toml ]; then cargo fetch; fi');
+    }
+  },
+  {
+    language: 'java',
+    defaultImage: 'maven:3.9-eclipse-temurin-21',
+    versions: { '17': 'maven:3.9-eclipse-temurin-17', '21': 'maven:3.9-eclipse-temurin-21' },
+    codeFilename: 'Main.java',
+    detection: {
+      extensions: ['.java'],
+      markerFiles: ['pom.xml'],
+      patterns: [/\bpublic\s+static\s+void\s+main\s*\(/, /\bSystem\.out\.print/, /\b(public\s+)?class\s+\w+/, /^import\s+[\w.*]+;\s*$/m]
+    },
+    prepareFiles: (options, dir) => {
+      fs.writeFileSync(path.join(dir, 'Main.java'), options.code);
+      // Dependencies are Maven coordinates (groupId:artifactId:version), resolved through a generated pom.xml
+      if (options.dependencies?.length) {
+        fs.writeFileSync(path.join(dir, 'pom.xml'), pomXml(options.dependencies));
+      }
+    },
+    compile: {
+      // Maven projects compile offline with mvn, from the repository the installer filled, and copy their classes
+      // and dependency jars into the build directory
+      buildCommand: (entry, options) => [
+        'sh', '-c', `if [ -f pom.xml ]; then ` +
+          `mvn -o -q -B compile dependency:copy-dependencies -DoutputDirectory="$IT_BUILD_DIR/lib" && cp -r target/classes "$IT_BUILD_DIR/classes"; ` +
+          `else mkdir -p "$IT_BUILD_DIR/classes" && javac ${compileFlags(options)} -d "$IT_BUILD_DIR/classes" ${sourceFileArgs(entry, options, ['.java'])}; fi`
+      ],
+      timeout: 300000
+    },
+    buildInlineCommand: () => javaRunCommand('Main.java'),
+    buildRunAppCommand: (entry) => javaRunCommand(entry),
+    installDependencies: async (container, options) => {
+      return runInstallScript(container, options, 'if [ -f pom.xml ]; then mvn -q -B dependency:go-offline; fi');
+    }
+  },
+  cFamily('c', 'gcc', 'main.c', ['.c'], '-O2 -std=c17', [
+    /#include\s*<(stdio|stdlib|string|math)\.h>/, /\bprintf\s*\(/, /\bint\s+main\s*\(/, /\bmalloc\s*\(/
+  ]),
+  cFamily('cpp', 'g++', 'main.cpp', ['.cpp', '.cc', '.cxx'], '-O2 -std=c++17', [
+    /#include\s*<(iostream|vector|string|map|algorithm)>/, /\bstd::/, /\bcout\s*<</, /\busing\s+namespace\s+std\b/, /\bint\s+main\s*\(/
+  ]),
+  {
+    language: 'deno',
+    defaultImage: 'denoland/deno:alpine-2.1.4',
+    codeFilename: 'main.ts',
+    detection: {
+      interpreters: ['deno'],
+      extensions: ['.ts', '.tsx', '.js', '.jsx'],
+      markerFiles: ['deno.json', 'deno.jsonc'],
+      patterns: [...jsPatterns, ...typeAnnotationPatterns, /\bDeno\.\w+/, /from\s+['"](jsr:|npm:|https:\/\/deno\.land\/)/]
+    },
+    prepareFiles: (options, dir) => {
+      fs.writeFileSync(path.join(dir, 'main.ts'), options.code);
+      if (options.dependencies?.length) {
+        fs.writeFileSync(path.join(dir, 'deno.json'), JSON.stringify(denoConfig(options.dependencies), null, 2));
+      }
+    },
+    buildInlineCommand: (_depsInstalled, options) => denoRunCommand('main.ts', options),
+    buildRunAppCommand: (entry, _depsInstalled, options) => denoRunCommand(entry, options),
+    installDependencies: async (container, options) => {
+      // Downloads everything the entry file imports (npm:, jsr: and URL specifiers) plus any listed URL modules
+      const entry = options.runApp?.entryFile ?? options.entryFile ?? 'main.ts';
+      const urls = (options.dependencies ?? []).filter(dep => /^https?:\/\//.test(dep));
+      return runInstallScript(container, options, `deno cache ${[entry, ...urls].map(shellQuote).join(' ')}`);
+    }
+  },
+  {
+    language: 'sql',
+    defaultImage: 'python:3.12-slim',
+    codeFilename: 'query.sql',
+    detection: {
+      extensions: ['.sql'],
+      patterns: [/^\s*select\b[\s\S]*?\bfrom\b/im, /^\s*create\s+(table|view|index)\b/im, /^\s*insert\s+into\b/im, /^\s*with\s+\w+\s+as\s*\(/im]
+    },
+    prepareFiles: (options, dir) => {
+      fs.writeFileSync(path.join(dir, 'query.sql'), options.code);
+    },
+    // SQLite through Python's sqlite3 module; the database file stays in the working directory between runs
+    buildInlineCommand: () => [
+      'sh', '-c', `py=$(command -v python3 || command -v python) && exec $py -u ${CONTAINER_RUNTIME_DIR}/sql/sql_runner.py query.sql`
+    ],
+    buildRunAppCommand: (entry) => [
+      'sh', '-c', `py=$(command -v python3 || command -v python) && exec $py -u ${CONTAINER_RUNTIME_DIR}/sql/sql_runner.py ${shellQuote(entry)}`
+    ]
+  },
+  {
+    language: 'bun',
+    defaultImage: 'oven/bun:1-alpine',
+    versions: { '1': 'oven/bun:1-alpine', '1.1': 'oven/bun:1.1-alpine' },
+    codeFilename: 'index.ts',
+    detection: {
+      interpreters: ['bun'],
+      extensions: ['.ts', '.tsx', '.js', '.jsx'],
+      markerFiles: ['bun.lockb', 'bun.lock', 'bunfig.toml'],
+      patterns: [...jsPatterns, ...typeAnnotationPatterns, /\bBun\.\w+/, /from\s+['"]bun(:\w+)?['"]/]
+    },
+    prepareFiles: (options, dir) => {
+      fs.writeFileSync(path.join(dir, 'index.ts'), options.code);
+      const dependencies: Record<string, string> = {};
+      for (const dep of options.dependencies ?? []) {
+        // Keep the leading @ of scoped packages when splitting off the version
+        const at = dep.lastIndexOf('@');
+        const [name, version] = at > 0 ? [dep.slice(0, at), dep.slice(at + 1)] : [dep, 'latest'];
+        dependencies[name] = version;
+      }
+      fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({
+        name: 'code-execution',
+        version: '1.0.0',
+        private: true,
+        dependencies
+      }, null, 2));
+    },
+    // Bun runs TypeScript and JavaScript directly, without a separate transpile step
+    buildInlineCommand: () => ['sh', '-c', 'exec bun run index.ts'],
+    buildRunAppCommand: (entry) => ['sh', '-c', `exec bun run ${shellQuote(entry)}`],
+    installDependencies: async (container, options) => {
+      return runInstallScript(container, options, 'if [ -f package.json ]; then bun install --ignore-scripts --no-progress; fi');
+    }
   }
 ];
 
@@ -236,6 +641,7 @@ export class LanguageRegistry {
   private static configs = new Map<string, LanguageConfig>(
     defaultLanguageConfigs.map(cfg => [cfg.language, cfg])
   );
+  private static listeners = new Set<() => void>();
 
   static get(language: string): LanguageConfig | undefined {
     return this.configs.get(language);
@@ -243,6 +649,21 @@ export class LanguageRegistry {
 
   static register(config: LanguageConfig): void {
     this.configs.set(config.language, config);
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (err) {
+        console.error('Language registry listener failed:', err);
+      }
+    }
+  }
+
+  // Calls `listener` after every register(); returns a function that removes it
+  static onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   static list(): LanguageConfig[] {
@@ -252,4 +673,17 @@ export class LanguageRegistry {
   static names(): string[] {
     return Array.from(this.configs.keys());
   }
+
+  /**
+   * Image to run `language` in: the image of `version` when one is given, otherwise the
+   * language's default image.
+   */
+  static resolveImage(language: string, version?: string): string {
+    const cfg = this.configs.get(language);
+    if (!cfg) throw new UnsupportedLanguageError(language);
+    if (version === undefined) return cfg.defaultImage;
+    const image = cfg.versions?.[version];
+    if (!image) throw new UnsupportedVersionError(language, version, Object.keys(cfg.versions ?? {}));
+    return image;
+  }
 } 
\ No newline at end of file
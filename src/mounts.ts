@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline, Readable } from 'stream';
+import { InvalidMountError } from './errors';
+import { MountOptions } from './types';
+
+const TAR_BLOCK = 512;
+const COPY_CHUNK = 64 * 1024;
+const MAX_TAR_EXTENDED_HEADER = 1024 * 1024;
+const ZIP_EOCD_SIZE = 22;
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+
+// What one archive mount may expand to
+const MAX_EXTRACTED_BYTES = 1024 * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = 100000;
+
+/**
+ * Checks that the mount's source exists and has the kind its type expects, and that the
+ * target is an absolute container path. Throws InvalidMountError otherwise.
+ */
+export function validateMount(mount: MountOptions): void {
+  const fail = (message: string): never => {
+    throw new InvalidMountError(mount.source, mount.target, message);
+  };
+  if (!['file', 'directory', 'zip', 'tar'].includes(mount.type)) {
+    fail(`unknown type ${mount.type}`);
+  }
+  if (!path.posix.isAbsolute(mount.target) || path.posix.normalize(mount.target) === '/') {
+    fail('target must be an absolute path other than /');
+  }
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(mount.source);
+  } catch {
+    return fail('source does not exist');
+  }
+  if (mount.type === 'directory' ? !stat.isDirectory() : !stat.isFile()) {
+    fail(`source is not a ${mount.type === 'directory' ? 'directory' : 'file'}`);
+  }
+}
+
+// Path of an archive member inside `dir`; throws for absolute paths and paths that would leave it
+function memberPath(dir: string, name: string): string {
+  const normalized = path.posix.normalize(name.replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`archive member ${name} points outside the extraction directory`);
+  }
+  return path.join(dir, normalized);
+}
+
+// Counts what an archive expands to, so a small archive cannot fill the disk or the inode table
+class ExtractionBudget {
+  private bytes = 0;
+  private entries = 0;
+
+  addEntry(): void {
+    if (++this.entries > MAX_ARCHIVE_ENTRIES) {
+      throw new Error(`archive has more than ${MAX_ARCHIVE_ENTRIES} entries`);
+    }
+  }
+
+  addBytes(size: number): void {
+    this.bytes += size;
+    if (this.bytes > MAX_EXTRACTED_BYTES) {
+      throw new Error(`archive expands to more than ${MAX_EXTRACTED_BYTES / (1024 * 1024)}MB`);
+    }
+  }
+}
+
+// Hands out exact byte counts from a stream, copying only when a read spans two chunks
+class StreamReader {
+  private buffer = Buffer.alloc(0);
+  private readonly chunks: AsyncIterator<Buffer>;
+
+  constructor(stream: Readable) {
+    this.chunks = stream[Symbol.asyncIterator]();
+  }
+
+  // `size` bytes, or fewer when the stream ends first
+  async read(size: number): Promise<Buffer> {
+    while (this.buffer.length < size) {
+      const { value, done } = await this.chunks.next();
+      if (done) break;
+      this.buffer = this.buffer.length ? Buffer.concat([this.buffer, value]) : value;
+    }
+    const result = this.buffer.subarray(0, size);
+    this.buffer = this.buffer.subarray(result.length);
+    return result;
+  }
+
+  async readExactly(size: number): Promise<Buffer> {
+    const result = await this.read(size);
+    if (result.length < size) throw new Error('truncated tar archive');
+    return result;
+  }
+
+  // Copies `size` bytes to `fd`, or drops them without one
+  async copy(size: number, fd?: number): Promise<void> {
+    for (let left = size; left > 0;) {
+      const chunk = await this.readExactly(Math.min(left, COPY_CHUNK));
+      if (fd !== undefined) fs.writeSync(fd, chunk);
+      left -= chunk.length;
+    }
+  }
+}
+
+// Creates the member's parent directories and opens it for writing
+function openMember(target: string, executable: boolean): number {
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  const fd = fs.openSync(target, 'w');
+  if (executable) fs.fchmodSync(fd, 0o755);
+  return fd;
+}
+
+// Reads `length` bytes at `position`; an archive that ends earlier is truncated
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  if (fs.readSync(fd, buffer, 0, length, position) < length) {
+    throw new Error('truncated zip archive');
+  }
+  return buffer;
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  size: number;
+  unixMode: number;  // 0 when the archive was not made on Unix
+  localHeaderOffset: number;
+}
+
+// Entries of the central directory, found through the end of central directory record
+function readZipDirectory(fd: number): ZipEntry[] {
+  const fileSize = fs.fstatSync(fd).size;
+  const tailLength = Math.min(fileSize, ZIP_EOCD_SIZE + 0xffff);
+  const tail = readAt(fd, fileSize - tailLength, tailLength);
+  let eocd = tail.length - ZIP_EOCD_SIZE;
+  while (eocd >= 0 && tail.readUInt32LE(eocd) !== ZIP_EOCD_SIGNATURE) eocd--;
+  if (eocd < 0) throw new Error('not a zip archive');
+
+  const count = tail.readUInt16LE(eocd + 10);
+  const directorySize = tail.readUInt32LE(eocd + 12);
+  const directoryOffset = tail.readUInt32LE(eocd + 16);
+  if (count === 0xffff || directoryOffset === 0xffffffff) throw new Error('zip64 archives are not supported');
+  const directory = readAt(fd, directoryOffset, directorySize);
+
+  const entries: ZipEntry[] = [];
+  for (let offset = 0; entries.length < count; ) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== ZIP_CENTRAL_SIGNATURE) {
+      throw new Error('corrupt zip central directory');
+    }
+    const nameLength = directory.readUInt16LE(offset + 28);
+    entries.push({
+      name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: directory.readUInt16LE(offset + 10),
+      flags: directory.readUInt16LE(offset + 8),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      // Unix permissions live in the high 16 bits of the external attributes
+      unixMode: directory.readUInt8(offset + 5) === 3 ? directory.readUInt32LE(offset + 38) >>> 16 : 0,
+      localHeaderOffset: directory.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + directory.readUInt16LE(offset + 30) + directory.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+/**
+ * Extracts regular files and directories of a zip archive, streaming each member from the file.
+ * Symlinks are skipped, and a member that inflates past the size its header declares fails the mount.
+ */
+async function extractZip(source: string, dir: string, budget: ExtractionBudget): Promise<void> {
+  const archive = fs.openSync(source, 'r');
+  try {
+    for (const entry of readZipDirectory(archive)) {
+      budget.addEntry();
+      const target = memberPath(dir, entry.name);
+      const fileType = entry.unixMode & 0o170000;
+      if (entry.name.endsWith('/') || fileType === 0o040000) {
+        fs.mkdirSync(target, { recursive: true });
+        continue;
+      }
+      if (fileType !== 0 && fileType !== 0o100000) continue;
+      if (entry.flags & 0x1) throw new Error(`${entry.name} is encrypted`);
+      if (entry.method !== 0 && entry.method !== 8) throw new Error(`${entry.name} uses unsupported compression method ${entry.method}`);
+      budget.addBytes(entry.size);
+
+      const local = readAt(archive, entry.localHeaderOffset, 30);
+      if (local.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) throw new Error(`corrupt local header of ${entry.name}`);
+      const dataStart = entry.localHeaderOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+
+      const fd = openMember(target, (entry.unixMode & 0o111) !== 0);
+      try {
+        if (entry.size === 0) continue;
+        if (entry.compressedSize === 0) throw new Error(`${entry.name} is truncated`);
+        const raw = fs.createReadStream(source, { start: dataStart, end: dataStart + entry.compressedSize - 1 });
+        const data: Readable = entry.method === 8 ? pipeline(raw, zlib.createInflateRaw(), () => {}) : raw;
+        let written = 0;
+        for await (const chunk of data) {
+          written += chunk.length;
+          if (written > entry.size) throw new Error(`${entry.name} is larger than its header declares`);
+          fs.writeSync(fd, chunk);
+        }
+        if (written < entry.size) throw new Error(`${entry.name} is truncated`);
+      } finally {
+        fs.closeSync(fd);
+      }
+    }
+  } finally {
+    fs.closeSync(archive);
+  }
+}
+
+// Numeric header field: octal text, or big-endian base-256 when the high bit is set
+function tarNumber(field: Buffer): number {
+  if (field[0] & 0x80) {
+    return Array.from(field.subarray(1)).reduce((value, byte) => value * 256 + byte, field[0] & 0x7f);
+  }
+  const text = field.toString('latin1').split('\0')[0].trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function tarString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+// The `path` record of a pax extended header ("<length> path=<value>\n" records)
+function paxPath(body: Buffer): string | undefined {
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(body.toString('utf8'));
+  return match?.[1];
+}
+
+function isGzip(source: string): boolean {
+  const fd = fs.openSync(source, 'r');
+  try {
+    const magic = Buffer.alloc(2);
+    return fs.readSync(fd, magic, 0, 2, 0) === 2 && magic[0] === 0x1f && magic[1] === 0x8b;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Extracts regular files and directories of a plain or gzip-compressed tar archive, streaming it
+ * from the file. Links and device files are skipped, so nothing extracted can point outside `dir`.
+ */
+async function extractTar(source: string, dir: string, budget: ExtractionBudget): Promise<void> {
+  const file = fs.createReadStream(source);
+  const stream: Readable = isGzip(source) ? pipeline(file, zlib.createGunzip(), () => {}) : file;
+  const reader = new StreamReader(stream);
+
+  try {
+    let nextName: string | undefined;  // Set by a GNU long name or pax header for the following member
+    for (;;) {
+      const header = await reader.read(TAR_BLOCK);
+      if (header.length < TAR_BLOCK || header.every(byte => byte === 0)) break;
+      budget.addEntry();
+
+      const size = tarNumber(header.subarray(124, 136));
+      const mode = tarNumber(header.subarray(100, 108));
+      const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+      const prefix = header.subarray(257, 262).toString('latin1') === 'ustar' ? tarString(header.subarray(345, 500)) : '';
+      const padding = Math.ceil(size / TAR_BLOCK) * TAR_BLOCK - size;
+      // Every body counts, including the skipped ones, since they are decompressed all the same
+      budget.addBytes(size);
+
+      if (type === 'L' || type === 'x') {
+        // Extended headers are read into memory, so they get a cap of their own
+        if (size > MAX_TAR_EXTENDED_HEADER) throw new Error('tar extended header too large');
+        const body = await reader.readExactly(size);
+        await reader.copy(padding);
+        nextName = type === 'L' ? tarString(body) : paxPath(body) ?? nextName;
+        continue;
+      }
+      if (type === 'g') {
+        await reader.copy(size + padding);
+        continue;
+      }
+
+      const name = nextName ?? (prefix ? `${prefix}/${tarString(header.subarray(0, 100))}` : tarString(header.subarray(0, 100)));
+      nextName = undefined;
+      const target = memberPath(dir, name);
+      if (type === '0' || type === '7') {
+        const fd = openMember(target, (mode & 0o111) !== 0);
+        try {
+          await reader.copy(size, fd);
+        } finally {
+          fs.closeSync(fd);
+        }
+        await reader.copy(padding);
+        continue;
+      }
+      if (type === '5') fs.mkdirSync(target, { recursive: true });
+      await reader.copy(size + padding);
+    }
+  } finally {
+    stream.destroy();
+    file.destroy();
+  }
+}
+
+/**
+ * Extracts a 'zip' or 'tar' mount's source into `dir`, which must be empty. Archives that expand to
+ * more than MAX_EXTRACTED_BYTES or hold more than MAX_ARCHIVE_ENTRIES entries are rejected.
+ */
+export async function extractArchive(mount: MountOptions, dir: string): Promise<void> {
+  fs.mkdirSync(dir, { recursive: true });
+  try {
+    const budget = new ExtractionBudget();
+    if (mount.type === 'zip') {
+      await extractZip(mount.source, dir, budget);
+    } else {
+      await extractTar(mount.source, dir, budget);
+    }
+  } catch (err) {
+    fs.rmSync(dir, { recursive: true, force: true });
+    throw new InvalidMountError(mount.source, mount.target, `cannot extract ${mount.type} archive: ${err instanceof Error ? err.message : String(err)}`, err);
+  }
+}
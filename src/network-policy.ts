@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import { InvalidOptionsError } from './errors';
+import { BlockedConnection, NetworkAccess, NetworkAccessMode, NetworkPhase, NetworkPolicy } from './types';
+
+// Name under which programs on an allowlist network reach the egress proxy
+export const EGRESS_PROXY_HOST = 'egress-proxy';
+export const EGRESS_PROXY_PORT = 3128;
+
+// Runs the proxy script; any image with python3 works
+export const EGRESS_PROXY_IMAGE = 'python:3.12-slim';
+
+const HOSTNAME_PATTERN = /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*\.?$/i;
+
+// Splits `host`, `host:port` and `[v6]:port`; a bare IPv6 address or range has no port
+function splitAllowEntry(entry: string): { host: string; port?: string } {
+  const bracketed = /^\[([^\]]+)\](?::(.*))?$/.exec(entry);
+  if (bracketed) return { host: bracketed[1], port: bracketed[2] };
+  const parts = entry.split(':');
+  return parts.length === 2 ? { host: parts[0], port: parts[1] } : { host: entry };
+}
+
+function isValidAllowEntry(entry: string): boolean {
+  const { host, port } = splitAllowEntry(entry);
+  if (port !== undefined && !(/^\d+$/.test(port) && Number(port) >= 1 && Number(port) <= 65535)) {
+    return false;
+  }
+  const [address, prefix, ...rest] = host.split('/');
+  const family = net.isIP(address);
+  if (family === 0) {
+    return prefix === undefined && HOSTNAME_PATTERN.test(host);
+  }
+  if (prefix === undefined) return true;
+  return rest.length === 0 && /^\d+$/.test(prefix) && Number(prefix) <= (family === 4 ? 32 : 128);
+}
+
+function validateNetworkAccess(access: NetworkAccess, label: string): void {
+  if (access === 'none' || access === 'full') return;
+  if (typeof access !== 'object' || access === null || !Array.isArray((access as { allow?: unknown }).allow)) {
+    throw new InvalidOptionsError(`Invalid ${label}: ${JSON.stringify(access)}; expected 'none', 'full' or { allow: [...] }`);
+  }
+  for (const entry of access.allow) {
+    if (typeof entry !== 'string' || !isValidAllowEntry(entry)) {
+      throw new InvalidOptionsError(`Invalid network allowlist entry: ${entry}; expected a host name, *.domain, IP address or CIDR range with an optional :port`);
+    }
+  }
+}
+
+export const isPhasedNetworkPolicy = (policy: NetworkPolicy | undefined): policy is { install: NetworkAccess; run: NetworkAccess } =>
+  typeof policy === 'object' && policy !== null && ('install' in policy || 'run' in policy);
+
+// Throws InvalidOptionsError for an unknown policy or a malformed allowlist entry
+export function validateNetworkPolicy(policy: NetworkPolicy | undefined): void {
+  if (policy === undefined) return;
+  if (isPhasedNetworkPolicy(policy)) {
+    validateNetworkAccess(policy.install, 'network.install');
+    validateNetworkAccess(policy.run, 'network.run');
+  } else {
+    validateNetworkAccess(policy, 'network policy');
+  }
+}
+
+// Access of one phase; a policy without phases applies to both
+export function networkAccessFor(policy: NetworkPolicy | undefined, phase: NetworkPhase): NetworkAccess {
+  if (isPhasedNetworkPolicy(policy)) return policy[phase];
+  return policy ?? 'full';
+}
+
+export const isAllowlist = (access: NetworkAccess): access is { allow: string[] } => typeof access === 'object';
+
+export const networkAccessMode = (access: NetworkAccess): NetworkAccessMode => isAllowlist(access) ? 'allowlist' : access;
+
+// Proxy variables for a phase with an allowlist; both spellings, since tools disagree on the case they read
+export function egressProxyEnv(access: NetworkAccess): Record<string, string> {
+  if (!isAllowlist(access)) return {};
+  const url = `http://${EGRESS_PROXY_HOST}:${EGRESS_PROXY_PORT}`;
+  const noProxy = 'localhost,127.0.0.1,::1';
+  return {
+    HTTP_PROXY: url,
+    HTTPS_PROXY: url,
+    http_proxy: url,
+    https_proxy: url,
+    NO_PROXY: noProxy,
+    no_proxy: noProxy
+  };
+}
+
+// Size of the proxy's log, i.e. where the entries of the next execution start
+export function blockedLogOffset(logFile: string): number {
+  try {
+    return fs.statSync(logFile).size;
+  } catch {
+    return 0;
+  }
+}
+
+// Entries the proxy of `phase` logged from `offset` on
+export function readBlockedConnections(logFile: string, offset: number, phase: NetworkPhase): BlockedConnection[] {
+  let text: string;
+  try {
+    const fd = fs.openSync(logFile, 'r');
+    try {
+      const length = Math.max(0, fs.fstatSync(fd).size - offset);
+      const buffer = Buffer.alloc(length);
+      fs.readSync(fd, buffer, 0, length, offset);
+      text = buffer.toString('utf8');
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return [];
+  }
+  const blocked: BlockedConnection[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const { host, port, method, time } = JSON.parse(line);
+      blocked.push({ host, port, method, time, phase });
+    } catch {}
+  }
+  return blocked;
+}
@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OutputTruncation } from './types';
+
+/**
+ * Collects one output stream of an execution. Without a limit everything is kept.
+ * With a limit only the first and last `limit / 2` bytes stay in memory; once the
+ * limit is crossed the complete stream is written to a spill file on the host.
+ */
+export class OutputCollector {
+  private chunks: Buffer[] = [];
+  private head: Buffer = Buffer.alloc(0);
+  private tail: Buffer[] = [];
+  private tailBytes = 0;
+  private totalBytes = 0;
+  private fd: number | null = null;
+  private spilled = false;
+
+  constructor(
+    private readonly limit: number | undefined,
+    private readonly spillFile: string // host path, outside any workspace
+  ) {
+    if (limit !== undefined && (!Number.isFinite(limit) || limit < 0)) {
+      throw new Error(`Invalid output limit: ${limit}`);
+    }
+  }
+
+  push(data: string): void {
+    if (!data) return;
+    const chunk = Buffer.from(data);
+    this.totalBytes += chunk.length;
+
+    if (this.limit === undefined) {
+      this.chunks.push(chunk);
+      return;
+    }
+
+    if (!this.spilled) {
+      this.chunks.push(chunk);
+      if (this.totalBytes > this.limit) {
+        this.startSpilling();
+      }
+      return;
+    }
+
+    if (this.fd !== null) {
+      fs.writeSync(this.fd, chunk);
+    }
+    this.appendTail(chunk);
+  }
+
+  private get headLimit(): number {
+    return Math.floor(this.limit! / 2);
+  }
+
+  private get tailLimit(): number {
+    return this.limit! - this.headLimit;
+  }
+
+  private startSpilling(): void {
+    const all = Buffer.concat(this.chunks);
+    this.chunks = [];
+
+    fs.mkdirSync(path.dirname(this.spillFile), { recursive: true });
+    this.fd = fs.openSync(this.spillFile, 'wx');
+    this.spilled = true;
+    fs.writeSync(this.fd, all);
+
+    this.head = all.subarray(0, this.headLimit);
+    this.appendTail(all.subarray(this.headLimit));
+  }
+
+  private appendTail(chunk: Buffer): void {
+    this.tail.push(chunk);
+    this.tailBytes += chunk.length;
+    while (this.tail.length > 0 && this.tailBytes - this.tail[0].length >= this.tailLimit) {
+      this.tailBytes -= this.tail.shift()!.length;
+    }
+  }
+
+  get truncation(): OutputTruncation | undefined {
+    if (!this.spilled) return undefined;
+    return {
+      totalBytes: this.totalBytes,
+      keptBytes: this.head.length + Math.min(this.tailBytes, this.tailLimit),
+      file: this.spillFile
+    };
+  }
+
+  toString(): string {
+    const truncation = this.truncation;
+    if (!truncation) {
+      return Buffer.concat(this.chunks).toString();
+    }
+    const tail = Buffer.concat(this.tail);
+    const keptTail = tail.subarray(Math.max(0, tail.length - this.tailLimit));
+    const omitted = truncation.totalBytes - truncation.keptBytes;
+    return this.head.toString() +
+      `\n... [output truncated: ${omitted} of ${truncation.totalBytes} bytes omitted, full output in ${truncation.file}] ...\n` +
+      keptTail.toString();
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import Docker from 'dockerode';
+import { Duplex } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { ContainerUnavailableError } from './errors';
+
+// Every process started on behalf of an execution inherits this variable, so the
+// whole process tree can be found again even after children are re-parented.
+export const EXEC_TAG_ENV = 'INTERPRETER_TOOLS_EXEC_ID';
+
+export function createExecTag(): string {
+  return uuidv4();
+}
+
+export function execTagEnv(tag: string): string {
+  return `${EXEC_TAG_ENV}=${tag}`;
+}
+
+/**
+ * Returns a view of the container whose `exec()` calls carry the execution tag.
+ * Used for hooks such as `LanguageConfig.installDependencies` that create their
+ * own execs, so they can be killed on timeout like the main command. `env` is
+ * added to each exec as well, before the hook's own variables.
+ */
+export function withExecTag(container: Docker.Container, tag: string, env: string[] = []): Docker.Container {
+  const tagged = Object.create(container) as Docker.Container;
+  (tagged as any).exec = (options: Docker.ExecCreateOptions, callback?: any) => {
+    const taggedOptions = { ...options, Env: [...env, ...(options.Env ?? []), execTagEnv(tag)] };
+    return callback ? container.exec(taggedOptions, callback) : container.exec(taggedOptions);
+  };
+  return tagged;
+}
+
+/**
+ * Kills every process in the container that carries the given execution tag.
+ * Matching processes are stopped first so a forking tree cannot outrun the scan.
+ */
+export async function killTaggedProcesses(container: Docker.Container, tag: string): Promise<void> {
+  const script = `
+scan() {
+  for d in /proc/[0-9]*; do
+    p=\${d#/proc/}
+    [ "$p" = "$$" ] && continue
+    if tr '\\0' '\\n' < "$d/environ" 2>/dev/null | grep -qx '${execTagEnv(tag)}'; then echo "$p"; fi
+  done
+}
+for i in 1 2; do for p in $(scan); do kill -STOP "$p" 2>/dev/null; done; done
+for p in $(scan); do kill -KILL "$p" 2>/dev/null; done
+exit 0`;
+  try {
+    const exec = await container.exec({ Cmd: ['sh', '-c', script], AttachStdout: true, AttachStderr: true });
+    const stream = await exec.start({ hijack: true, stdin: false });
+    await new Promise<void>((resolve) => {
+      stream.on('end', resolve);
+      stream.on('error', () => resolve());
+      stream.resume();
+    });
+  } catch (err) {
+    console.error('Error killing execution processes:', err);
+  }
+}
+
+// Runs a script and returns its stdout
+async function runControlScript(container: Docker.Container, script: string): Promise<string> {
+  let out = '';
+  const exec = await container.exec({ Cmd: ['sh', '-c', script], AttachStdout: true, AttachStderr: true });
+  const stream = await exec.start({ hijack: true, stdin: false });
+  await new Promise<void>((resolve, reject) => {
+    container.modem.demuxStream(stream as Duplex,
+      { write: (chunk: Buffer) => { out += chunk.toString(); } },
+      { write: () => {} }
+    );
+    stream.on('end', resolve);
+    stream.on('error', reject);
+  });
+  return out;
+}
+
+/**
+ * Stops every process in the container except PID 1 and returns their PIDs, so programs
+ * left running by earlier executions cannot use a network meant for the installer alone.
+ * Scans repeat so a forking process cannot outrun them.
+ */
+export async function freezeProcesses(container: Docker.Container): Promise<string[]> {
+  const script = `
+stopped=" "
+for i in 1 2 3; do
+  for d in /proc/[0-9]*; do
+    p=\${d#/proc/}
+    [ "$p" = 1 ] || [ "$p" = "$$" ] && continue
+    case "$stopped" in *" $p "*) continue ;; esac
+    kill -STOP "$p" 2>/dev/null && stopped="$stopped$p "
+  done
+done
+echo $stopped
+exit 0`;
+  let out: string;
+  try {
+    out = await runControlScript(container, script);
+  } catch (err) {
+    throw new ContainerUnavailableError('Failed to pause running processes before dependency installation', err);
+  }
+  return out.trim().split(/\s+/).filter(pid => /^\d+$/.test(pid));
+}
+
+/**
+ * Kills every process in the container except PID 1, including programs earlier executions left
+ * running. Processes are stopped first so a forking tree cannot outrun the scan.
+ */
+export async function killAllProcesses(container: Docker.Container): Promise<void> {
+  const script = `
+scan() {
+  for d in /proc/[0-9]*; do
+    p=\${d#/proc/}
+    [ "$p" = 1 ] || [ "$p" = "$$" ] || echo "$p"
+  done
+}
+for i in 1 2; do for p in $(scan); do kill -STOP "$p" 2>/dev/null; done; done
+for p in $(scan); do kill -KILL "$p" 2>/dev/null; done
+exit 0`;
+  try {
+    await runControlScript(container, script);
+  } catch (err) {
+    console.error('Error killing container processes:', err);
+  }
+}
+
+// Resumes the processes freezeProcesses stopped
+export async function thawProcesses(container: Docker.Container, pids: string[]): Promise<void> {
+  if (pids.length === 0) return;
+  try {
+    await runControlScript(container, `kill -CONT ${pids.join(' ')} 2>/dev/null; exit 0`);
+  } catch (err) {
+    console.error('Error resuming processes:', err);
+  }
+}
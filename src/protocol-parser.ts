@@ -0,0 +1,68 @@
+import { MESSAGE_MARKER } from './runtime-files';
+
+// Largest message accepted, in characters; leaves room for big figures without buffering a stream forever
+export const MAX_MESSAGE_LENGTH = 32 * 1024 * 1024;
+
+/**
+ * Splits a stdout stream into regular program output and the marker-prefixed JSON
+ * messages written by the runtime helpers (kernels, display helpers). A marker not followed
+ * by a newline within `maxMessageLength` characters is treated as plain output.
+ */
+export class ProtocolStreamParser {
+  private buffer = '';
+
+  constructor(
+    private readonly onText: (text: string) => void,
+    private readonly onMessage: (message: any) => void,
+    private readonly maxMessageLength: number = MAX_MESSAGE_LENGTH
+  ) {}
+
+  push(data: string): void {
+    this.buffer += data;
+    for (;;) {
+      const markerIdx = this.buffer.indexOf(MESSAGE_MARKER);
+      if (markerIdx === -1) {
+        // Hold back a trailing fragment that could be the start of a marker
+        let keep = 0;
+        for (let n = Math.min(MESSAGE_MARKER.length - 1, this.buffer.length); n > 0; n--) {
+          if (MESSAGE_MARKER.startsWith(this.buffer.slice(-n))) {
+            keep = n;
+            break;
+          }
+        }
+        this.emitText(this.buffer.slice(0, this.buffer.length - keep));
+        this.buffer = this.buffer.slice(this.buffer.length - keep);
+        return;
+      }
+
+      this.emitText(this.buffer.slice(0, markerIdx));
+      const lineEnd = this.buffer.indexOf('\n', markerIdx);
+      if (lineEnd === -1) {
+        this.buffer = this.buffer.slice(markerIdx);
+        // Released as text so it reaches the output limits instead of growing without bound
+        if (this.buffer.length > this.maxMessageLength) {
+          this.emitText(this.buffer);
+          this.buffer = '';
+        }
+        return;
+      }
+      const payload = this.buffer.slice(markerIdx + MESSAGE_MARKER.length, lineEnd);
+      this.buffer = this.buffer.slice(lineEnd + 1);
+      try {
+        this.onMessage(JSON.parse(payload));
+      } catch (err) {
+        console.error('Invalid runtime message:', err);
+      }
+    }
+  }
+
+  // Emits whatever is still buffered once the stream has ended
+  flush(): void {
+    this.emitText(this.buffer);
+    this.buffer = '';
+  }
+
+  private emitText(text: string): void {
+    if (text) this.onText(text);
+  }
+}
@@ -0,0 +1,144 @@
+import Docker from 'dockerode';
+import { InvalidOptionsError } from './errors';
+import { ExecutionOptions, ResourceLimits, ResourcePreset, ResourceProfile } from './types';
+
+const CPU_PERIOD = 100000;
+
+// Docker refuses memory limits below 6MB
+const MIN_MEMORY_BYTES = 6 * 1024 * 1024;
+
+export const RESOURCE_PRESETS: Record<ResourcePreset, ResourceLimits> = {
+  small: { memory: '256m', swap: '0', cpus: 0.5, pids: 64, tmpSize: '64m', openFiles: 256, workspaceSize: '256m' },
+  medium: { memory: '1g', swap: '0', cpus: 1, pids: 256, tmpSize: '256m', openFiles: 1024, workspaceSize: '1g' },
+  large: { memory: '4g', swap: '0', cpus: 2, pids: 1024, tmpSize: '1g', openFiles: 4096, workspaceSize: '4g' }
+};
+
+// Limits of containers whose session sets no profile
+export const DEFAULT_RESOURCE_LIMITS: ResourceLimits = { memory: '512m', cpus: 0.5 };
+
+// Limits `container.update` can change on a running container; the others only apply at creation
+const UPDATABLE_LIMITS: (keyof ResourceLimits)[] = ['memory', 'swap', 'cpus', 'pids'];
+
+const LIMIT_KEYS: (keyof ResourceLimits)[] = ['memory', 'swap', 'cpus', 'pids', 'tmpSize', 'openFiles', 'workspaceSize'];
+
+const UNIT_BYTES: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+/**
+ * Parses a size such as '512m', '1.5g' or '1048576' (bytes) into bytes. Units are binary
+ * (k = 1024) and may be followed by 'b'.
+ */
+export function parseSize(value: string, field: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmgt]?)b?$/i.exec(String(value).trim());
+  if (!match) {
+    throw new InvalidOptionsError(`Invalid ${field}: ${value}; expected a size such as '512m' or '1.5g'`);
+  }
+  return Math.floor(parseFloat(match[1]) * UNIT_BYTES[match[2].toLowerCase()]);
+}
+
+function checkPositiveInteger(value: number, field: string): void {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new InvalidOptionsError(`Invalid ${field}: ${value}; expected a positive integer`);
+  }
+}
+
+/**
+ * Validates a profile and returns its limits, with a preset's values under the explicit ones.
+ * Throws InvalidOptionsError for an unknown preset or field and for invalid values.
+ */
+export function resolveResourceProfile(profile: ResourceProfile | undefined, field: string): ResourceLimits {
+  if (profile === undefined) return {};
+  const { preset, ...explicit } = typeof profile === 'string' ? { preset: profile } : profile;
+  if (preset !== undefined && !(preset in RESOURCE_PRESETS)) {
+    throw new InvalidOptionsError(`Unknown ${field} preset: ${preset} (available: ${Object.keys(RESOURCE_PRESETS).join(', ')})`);
+  }
+  for (const key of Object.keys(explicit)) {
+    if (!LIMIT_KEYS.includes(key as keyof ResourceLimits)) {
+      throw new InvalidOptionsError(`Unknown ${field} field: ${key}`);
+    }
+  }
+
+  const limits: ResourceLimits = { ...(preset ? RESOURCE_PRESETS[preset] : {}), ...explicit };
+  if (limits.memory !== undefined && parseSize(limits.memory, `${field}.memory`) < MIN_MEMORY_BYTES) {
+    throw new InvalidOptionsError(`Invalid ${field}.memory: ${limits.memory}; the minimum is 6m`);
+  }
+  if (limits.swap !== undefined) {
+    if (limits.memory === undefined) {
+      throw new InvalidOptionsError(`${field}.swap requires ${field}.memory`);
+    }
+    parseSize(limits.swap, `${field}.swap`);
+  }
+  if (limits.cpus !== undefined && !(Number.isFinite(limits.cpus) && limits.cpus > 0)) {
+    throw new InvalidOptionsError(`Invalid ${field}.cpus: ${limits.cpus}; expected a positive number`);
+  }
+  if (limits.pids !== undefined) checkPositiveInteger(limits.pids, `${field}.pids`);
+  if (limits.openFiles !== undefined) checkPositiveInteger(limits.openFiles, `${field}.openFiles`);
+  for (const key of ['tmpSize', 'workspaceSize'] as const) {
+    if (limits[key] !== undefined && parseSize(limits[key]!, `${field}.${key}`) === 0) {
+      throw new InvalidOptionsError(`Invalid ${field}.${key}: ${limits[key]}; expected more than 0 bytes`);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Limits of one execution: `resources` over the legacy `memoryLimit`/`cpuLimit`. Undefined
+ * when the execution sets none. Only limits that can change on a running container are allowed.
+ */
+export function resolveExecutionLimits(options: ExecutionOptions): ResourceLimits | undefined {
+  if (options.resources === undefined && !options.memoryLimit && !options.cpuLimit) return undefined;
+
+  if (typeof options.resources === 'object') {
+    const fixed = Object.keys(options.resources).filter(key => key !== 'preset' && !UPDATABLE_LIMITS.includes(key as keyof ResourceLimits));
+    if (fixed.some(key => LIMIT_KEYS.includes(key as keyof ResourceLimits))) {
+      throw new InvalidOptionsError(
+        `resources.${fixed.join(', resources.')} can only be set on the session, since it applies when the container is created`
+      );
+    }
+  }
+  const legacy: ResourceLimits = {
+    ...(options.memoryLimit ? { memory: options.memoryLimit } : {}),
+    ...(options.cpuLimit ? { cpus: Number(options.cpuLimit) } : {})
+  };
+  const limits = resolveResourceProfile({ ...legacy, ...(typeof options.resources === 'string' ? { preset: options.resources } : options.resources) }, 'resources');
+  return Object.fromEntries(Object.entries(limits).filter(([key]) => UPDATABLE_LIMITS.includes(key as keyof ResourceLimits)));
+}
+
+// Limits that need a container created with them; a session that sets any cannot use pooled containers
+export const creationOnlyLimits = (limits: ResourceLimits): string[] =>
+  LIMIT_KEYS.filter(key => limits[key] !== undefined && !UPDATABLE_LIMITS.includes(key));
+
+// Memory, swap, CPU and pids settings shared by container creation and `container.update`
+export function updatableHostConfig(limits: ResourceLimits): Docker.HostConfig {
+  const config: Docker.HostConfig = {};
+  if (limits.memory !== undefined) {
+    const memory = parseSize(limits.memory, 'memory');
+    config.Memory = memory;
+    // Docker's MemorySwap is memory plus swap; without `swap` it gets Docker's default of as much swap as memory
+    config.MemorySwap = memory + (limits.swap !== undefined ? parseSize(limits.swap, 'swap') : memory);
+  }
+  if (limits.cpus !== undefined) {
+    config.CpuPeriod = CPU_PERIOD;
+    config.CpuQuota = Math.floor(limits.cpus * CPU_PERIOD);  // e.g., 0.5 -> 50000
+  }
+  // -1 lifts a limit a pooled container may still have from its previous session
+  config.PidsLimit = limits.pids ?? -1;
+  return config;
+}
+
+// Everything a container is created with: the updatable limits, the /tmp tmpfs and the open-file and file-size ulimits
+export function creationHostConfig(limits: ResourceLimits): Docker.HostConfig {
+  const ulimits: Docker.HostConfig['Ulimits'] = [];
+  if (limits.openFiles !== undefined) {
+    ulimits.push({ Name: 'nofile', Soft: limits.openFiles, Hard: limits.openFiles });
+  }
+  if (limits.workspaceSize !== undefined) {
+    // The workspace is only measured once a second, but no single file can outgrow it in between
+    const bytes = parseSize(limits.workspaceSize, 'workspaceSize');
+    ulimits.push({ Name: 'fsize', Soft: bytes, Hard: bytes });
+  }
+  return {
+    ...updatableHostConfig(limits),
+    ...(limits.tmpSize !== undefined ? { Tmpfs: { '/tmp': `rw,nosuid,nodev,size=${parseSize(limits.tmpSize, 'tmpSize')}` } } : {}),
+    ...(ulimits.length ? { Ulimits: ulimits } : {})
+  };
+}
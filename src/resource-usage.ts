@@ -0,0 +1,172 @@
+import Docker from 'dockerode';
+import { Duplex } from 'stream';
+import { ResourceUsage } from './types';
+
+// Raw counters of the container's cgroup; fields are missing when the kernel does not expose them
+export interface CgroupCounters {
+  cpuUsageUsec?: number;
+  oomKills?: number;
+  memoryPeakBytes?: number;
+  readBytes?: number;
+  writeBytes?: number;
+  pidsPeak?: number;
+}
+
+// Highest values Docker's stats stream reported while a phase ran
+interface StatsSamples {
+  memoryBytes?: number;
+  processes?: number;
+}
+
+// Measures one phase: counters are read when it starts and when `stop` is called, with Docker stats sampled in between
+interface UsageMeter {
+  stop(): Promise<ResourceUsage>;
+}
+
+// Prints the counters as key=value lines for cgroup v2, falling back to the v1 layout
+const READ_COUNTERS_SCRIPT = `
+if [ -f /sys/fs/cgroup/cpu.stat ]; then
+  echo "cpu_usec=$(sed -n 's/^usage_usec //p' /sys/fs/cgroup/cpu.stat)"
+  echo "oom_kills=$(sed -n 's/^oom_kill //p' /sys/fs/cgroup/memory.events 2>/dev/null)"
+  echo "memory_peak=$(cat /sys/fs/cgroup/memory.peak 2>/dev/null)"
+  echo "pids_peak=$(cat /sys/fs/cgroup/pids.peak 2>/dev/null)"
+  awk '{ for (i = 2; i <= NF; i++) { split($i, kv, "="); if (kv[1] == "rbytes") r += kv[2]; if (kv[1] == "wbytes") w += kv[2] } }
+    END { print "io_read=" r + 0; print "io_write=" w + 0 }' /sys/fs/cgroup/io.stat 2>/dev/null
+else
+  for f in /sys/fs/cgroup/cpuacct/cpuacct.usage /sys/fs/cgroup/cpu,cpuacct/cpuacct.usage; do
+    [ -f "$f" ] && echo "cpu_nsec=$(cat "$f")" && break
+  done
+  echo "oom_kills=$(sed -n 's/^oom_kill //p' /sys/fs/cgroup/memory/memory.oom_control 2>/dev/null)"
+  echo "memory_peak=$(cat /sys/fs/cgroup/memory/memory.max_usage_in_bytes 2>/dev/null)"
+  awk '$2 == "Read" { r += $3 } $2 == "Write" { w += $3 } END { print "io_read=" r + 0; print "io_write=" w + 0 }' \
+    /sys/fs/cgroup/blkio/blkio.throttle.io_service_bytes 2>/dev/null
+fi
+exit 0`;
+
+export async function readCgroupCounters(container: Docker.Container): Promise<CgroupCounters> {
+  let out = '';
+  try {
+    const exec = await container.exec({ Cmd: ['sh', '-c', READ_COUNTERS_SCRIPT], AttachStdout: true, AttachStderr: true });
+    const stream = await exec.start({ hijack: true, stdin: false });
+    await new Promise<void>((resolve) => {
+      container.modem.demuxStream(stream as Duplex,
+        { write: (c: Buffer) => { out += c.toString(); } },
+        { write: () => {} }
+      );
+      stream.on('end', resolve);
+      stream.on('error', () => resolve());
+    });
+  } catch (err) {
+    console.error('Error reading container resource counters:', err);
+    return {};
+  }
+
+  const values = new Map<string, number>();
+  for (const line of out.split('\n')) {
+    const [key, raw] = line.split('=');
+    const value = Number(raw?.trim());
+    if (key && raw?.trim() && Number.isFinite(value)) values.set(key, value);
+  }
+  const cpuNsec = values.get('cpu_nsec');
+  return {
+    cpuUsageUsec: values.get('cpu_usec') ?? (cpuNsec !== undefined ? cpuNsec / 1000 : undefined),
+    oomKills: values.get('oom_kills'),
+    memoryPeakBytes: values.get('memory_peak'),
+    readBytes: values.get('io_read'),
+    writeBytes: values.get('io_write'),
+    pidsPeak: values.get('pids_peak')
+  };
+}
+
+/**
+ * Follows the container's Docker stats stream (about one report a second) and keeps the
+ * highest memory use and process count. `stop` ends the stream and returns what was seen.
+ */
+async function sampleStats(container: Docker.Container): Promise<{ stop(): StatsSamples }> {
+  const samples: StatsSamples = {};
+  let stream: NodeJS.ReadableStream;
+  try {
+    stream = await container.stats({ stream: true });
+  } catch (err) {
+    console.error('Error reading container stats:', err);
+    return { stop: () => samples };
+  }
+
+  let pending = '';
+  stream.on('data', (chunk: Buffer) => {
+    const lines = (pending + chunk.toString()).split('\n');
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      try {
+        const stats: Docker.ContainerStats = JSON.parse(line);
+        const memory = stats.memory_stats?.usage;
+        const processes = stats.pids_stats?.current;
+        if (memory !== undefined) samples.memoryBytes = Math.max(samples.memoryBytes ?? 0, memory);
+        if (processes !== undefined) samples.processes = Math.max(samples.processes ?? 0, processes);
+      } catch {}
+    }
+  });
+  stream.on('error', () => {});
+  return {
+    stop: () => {
+      (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+      return samples;
+    }
+  };
+}
+
+async function startUsageMeter(container: Docker.Container): Promise<UsageMeter> {
+  const before = await readCgroupCounters(container);
+  const sampler = await sampleStats(container);
+  return {
+    stop: async () => {
+      const samples = sampler.stop();
+      return usageBetween(before, await readCgroupCounters(container), samples);
+    }
+  };
+}
+
+/**
+ * Runs one phase of an execution and reports the resources it used. The stats stream is
+ * closed even when the phase throws.
+ */
+export async function measureUsage<T>(container: Docker.Container, phase: () => Promise<T>): Promise<{ result: T; usage: ResourceUsage }> {
+  const meter = await startUsageMeter(container);
+  let result: T;
+  try {
+    result = await phase();
+  } catch (err) {
+    await meter.stop();
+    throw err;
+  }
+  return { result, usage: await meter.stop() };
+}
+
+/**
+ * A cgroup high-water mark covers the container's whole life, so it only describes the phase
+ * when it rose during it. Otherwise the phase stayed below an earlier peak and only the samples
+ * say anything; without samples the peak is unknown rather than an earlier phase's.
+ */
+function peakBetween(before: number | undefined, after: number | undefined, sampled: number | undefined): number | undefined {
+  if (after !== undefined && before !== undefined && after > before) return after;
+  return sampled;
+}
+
+const counterDelta = (before: number | undefined, after: number | undefined): number | undefined =>
+  before !== undefined && after !== undefined ? Math.max(0, after - before) : undefined;
+
+/**
+ * Attributes the counter changes between two readings to whatever ran in between.
+ * Only meaningful while nothing else runs in the container, which the per-session lock ensures.
+ */
+export function usageBetween(before: CgroupCounters, after: CgroupCounters, samples: StatsSamples = {}): ResourceUsage {
+  const cpuUsec = counterDelta(before.cpuUsageUsec, after.cpuUsageUsec);
+  return {
+    cpuTimeMs: cpuUsec !== undefined ? Math.round(cpuUsec / 1000) : undefined,
+    memoryPeakBytes: peakBetween(before.memoryPeakBytes, after.memoryPeakBytes, samples.memoryBytes),
+    readBytes: counterDelta(before.readBytes, after.readBytes),
+    writeBytes: counterDelta(before.writeBytes, after.writeBytes),
+    peakProcesses: peakBetween(before.pidsPeak, after.pidsPeak, samples.processes),
+    oomKilled: (after.oomKills ?? 0) > (before.oomKills ?? 0)
+  };
+}
@@ -0,0 +1,690 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BASE_TMP_DIR } from './constants';
+
+// Helper programs shipped into every container through a read-only bind mount
+export const RUNTIME_DIR = path.join(BASE_TMP_DIR, '.runtime');
+export const CONTAINER_RUNTIME_DIR = '/opt/interpreter-tools';
+
+// Helpers frame protocol messages on stdout with this prefix; everything else is program output
+export const MESSAGE_MARKER = '\x1eIT:';
+
+// Python display support: `display()` helper, matplotlib backend and automatic figure capture
+const PYTHON_DISPLAY = String.raw`import base64
+import io
+import json
+import sys
+
+MARKER = '\x1eIT:'
+
+
+def _emit(data):
+    try:
+        sys.stdout.flush()
+    except Exception:
+        pass
+    sys.__stdout__.write(MARKER + json.dumps({'type': 'display', 'data': data}) + '\n')
+    sys.__stdout__.flush()
+
+
+def _figure_png(fig):
+    buf = io.BytesIO()
+    fig.savefig(buf, format='png', bbox_inches='tight')
+    return base64.b64encode(buf.getvalue()).decode('ascii')
+
+
+def format_bundle(obj):
+    data = {}
+    if type(obj).__module__.startswith('matplotlib') and hasattr(obj, 'savefig'):
+        data['image/png'] = _figure_png(obj)
+    for mime, method in (('image/png', '_repr_png_'), ('text/html', '_repr_html_'), ('application/json', '_repr_json_')):
+        fn = getattr(obj, method, None)
+        if mime in data or not callable(fn):
+            continue
+        try:
+            value = fn()
+        except Exception:
+            continue
+        if value is None:
+            continue
+        if isinstance(value, bytes):
+            value = base64.b64encode(value).decode('ascii')
+        data[mime] = value
+    if isinstance(obj, (dict, list)) and 'application/json' not in data:
+        try:
+            json.dumps(obj)
+            data['application/json'] = obj
+        except (TypeError, ValueError):
+            pass
+    data['text/plain'] = obj if isinstance(obj, str) else repr(obj)
+    return data
+
+
+def display(*objs):
+    for obj in objs:
+        _emit(format_bundle(obj))
+
+
+def display_png(data):
+    if isinstance(data, bytes):
+        data = base64.b64encode(data).decode('ascii')
+    _emit({'image/png': data, 'text/plain': '<image/png>'})
+
+
+def display_html(html):
+    _emit({'text/html': html, 'text/plain': html})
+
+
+def display_json(obj):
+    _emit({'application/json': obj, 'text/plain': json.dumps(obj, indent=2)})
+
+
+def flush_figures():
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is None:
+        return
+    for num in pyplot.get_fignums():
+        fig = pyplot.figure(num)
+        _emit({'image/png': _figure_png(fig), 'text/plain': repr(fig)})
+    pyplot.close('all')
+`;
+
+const PYTHON_DISPLAY_BACKEND = String.raw`from matplotlib.backend_bases import FigureManagerBase
+from matplotlib.backends.backend_agg import FigureCanvasAgg
+
+FigureCanvas = FigureCanvasAgg
+FigureManager = FigureManagerBase
+
+try:
+    from matplotlib.backends.backend_agg import new_figure_manager  # noqa: F401 (older matplotlib)
+except ImportError:
+    pass
+
+
+def show(*args, **kwargs):
+    from it_display import flush_figures
+    flush_figures()
+`;
+
+const PYTHON_SITECUSTOMIZE = String.raw`import atexit
+import builtins
+
+try:
+    from it_display import display, flush_figures
+except Exception:
+    pass
+else:
+    builtins.display = display
+    # Figures that were never shown are still delivered when the script ends
+    atexit.register(flush_figures)
+`;
+
+// Environment for Python processes that should have display support
+export const PYTHON_DISPLAY_ENV: Record<string, string> = {
+  PYTHONPATH: `${CONTAINER_RUNTIME_DIR}/python`,
+  MPLBACKEND: 'module://it_display_backend'
+};
+
+const PYTHON_KERNEL = String.raw`import ast
+import json
+import os
+import sys
+import traceback
+
+try:
+    from it_display import display, flush_figures
+except Exception:
+    display = flush_figures = None
+
+MARKER = '\x1eIT:'
+namespace = {'__name__': '__main__', '__builtins__': __builtins__}
+
+
+def send(message):
+    try:
+        sys.stdout.flush()
+        sys.stderr.flush()
+    except Exception:
+        pass
+    sys.__stdout__.write(MARKER + json.dumps(message) + '\n')
+    sys.__stdout__.flush()
+
+
+def format_error(exc):
+    # Hide the kernel's own frames so the traceback looks like a normal script error
+    tb = exc.__traceback__
+    while tb is not None and tb.tb_frame.f_code.co_filename == __file__:
+        tb = tb.tb_next
+    return ''.join(traceback.format_exception(type(exc), exc, tb))
+
+
+def run_cell(code):
+    tree = ast.parse(code, '<cell>', 'exec')
+    last = None
+    if tree.body and isinstance(tree.body[-1], ast.Expr):
+        last = ast.Expression(tree.body.pop().value)
+    exec(compile(tree, '<cell>', 'exec'), namespace)
+    if last is None:
+        return None
+    value = eval(compile(last, '<cell>', 'eval'), namespace)
+    if value is None:
+        return None
+    namespace['_'] = value
+    if display is not None:
+        display(value)
+    return repr(value)
+
+
+def handle(request):
+    try:
+        value = run_cell(request['code'])
+        if flush_figures is not None:
+            flush_figures()
+        send({'type': 'result', 'id': request['id'], 'status': 'ok', 'value': value})
+    except BaseException as exc:  # KeyboardInterrupt and SystemExit end the cell, not the kernel
+        send({'type': 'result', 'id': request['id'], 'status': 'error',
+              'error': {'name': type(exc).__name__, 'message': str(exc), 'traceback': format_error(exc)}})
+
+
+def main():
+    # Keep the protocol channel private; user code and subprocesses read from /dev/null
+    requests = os.fdopen(os.dup(0), 'r')
+    devnull = os.open(os.devnull, os.O_RDONLY)
+    os.dup2(devnull, 0)
+    sys.stdin = open(os.devnull)
+    sys.path.insert(0, os.getcwd())
+
+    send({'type': 'ready', 'pid': os.getpid()})
+    while True:
+        try:
+            line = requests.readline()
+        except KeyboardInterrupt:
+            continue
+        if not line:
+            break
+        if line.strip():
+            handle(json.loads(line))
+
+
+if __name__ == '__main__':
+    main()
+`;
+
+const JAVASCRIPT_KERNEL = String.raw`'use strict';
+const vm = require('vm');
+const util = require('util');
+const path = require('path');
+const readline = require('readline');
+const { createRequire } = require('module');
+
+const MARKER = '\x1eIT:';
+const cwd = process.cwd();
+
+function send(message) {
+  process.stdout.write(MARKER + JSON.stringify(message) + '\n');
+}
+
+const sandbox = {
+  console, process, Buffer, URL, URLSearchParams, TextEncoder, TextDecoder,
+  setTimeout, clearTimeout, setInterval, clearInterval, setImmediate, clearImmediate, queueMicrotask,
+  require: createRequire(path.join(cwd, 'kernel.js')),
+  module: { exports: {} },
+  __dirname: cwd,
+  __filename: path.join(cwd, 'cell.js')
+};
+sandbox.exports = sandbox.module.exports;
+if (typeof fetch === 'function') sandbox.fetch = fetch;
+if (typeof structuredClone === 'function') sandbox.structuredClone = structuredClone;
+const context = vm.createContext(sandbox);
+
+async function handle(request) {
+  try {
+    let value = vm.runInContext(request.code, context, { filename: 'cell.js', breakOnSigint: true });
+    if (value && typeof value.then === 'function') value = await value;
+    send({ type: 'result', id: request.id, status: 'ok', value: value === undefined ? null : util.inspect(value) });
+  } catch (err) {
+    const error = err || {};
+    send({
+      type: 'result', id: request.id, status: 'error',
+      error: { name: error.name || 'Error', message: error.message || String(err), traceback: (error.stack || String(err)) + '\n' }
+    });
+  }
+}
+
+// An interrupt only breaks the running cell (via breakOnSigint), never the kernel itself
+process.on('SIGINT', () => {});
+
+let queue = Promise.resolve();
+readline.createInterface({ input: process.stdin })
+  .on('line', (line) => {
+    if (!line.trim()) return;
+    const request = JSON.parse(line);
+    queue = queue.then(() => handle(request));
+  })
+  .on('close', () => { queue.then(() => process.exit(0)); });
+
+send({ type: 'ready', pid: process.pid });
+`;
+
+// SQL runner: executes a script against a SQLite database in the working directory and reports
+// every query result as a table message besides printing it
+const SQL_RUNNER = String.raw`import csv
+import json
+import math
+import os
+import re
+import shlex
+import sqlite3
+import sys
+
+MARKER = '\x1eIT:'
+MAX_ROWS = 10000
+MAX_PRINTED_ROWS = 100
+DATA_EXTENSIONS = ('.csv', '.json', '.jsonl', '.ndjson')
+
+
+def send(message):
+    sys.stdout.flush()
+    sys.stdout.write(MARKER + json.dumps(message) + '\n')
+    sys.stdout.flush()
+
+
+def echo(text):
+    # Table data may contain the marker character; only send() may start a protocol message
+    print(text.replace('\x1e', ''))
+
+
+def quote(identifier):
+    return '"' + identifier.replace('"', '""') + '"'
+
+
+def table_name(path):
+    stem = os.path.splitext(os.path.basename(path))[0]
+    name = re.sub(r'\W+', '_', stem).strip('_').lower() or 'data'
+    return 't_' + name if name[0].isdigit() else name
+
+
+def convert(value):
+    # CSV cells are strings; store numbers as numbers and empty cells as NULL
+    if value is None or value == '':
+        return None
+    if isinstance(value, (dict, list)):
+        return json.dumps(value)
+    if isinstance(value, (bool, int, float)):
+        return value
+    for cast in (int, float):
+        try:
+            return cast(value)
+        except ValueError:
+            pass
+    return value
+
+
+def read_records(path):
+    ext = os.path.splitext(path)[1].lower()
+    with open(path, newline='', encoding='utf-8') as f:
+        if ext == '.csv':
+            reader = csv.reader(f)
+            return next(reader, []), list(reader)
+        if ext in ('.jsonl', '.ndjson'):
+            records = [json.loads(line) for line in f if line.strip()]
+        else:
+            records = json.load(f)
+            if isinstance(records, dict):
+                records = [records]
+    columns = []
+    for record in records:
+        for key in record:
+            if key not in columns:
+                columns.append(key)
+    return columns, [[record.get(column) for column in columns] for record in records]
+
+
+def import_file(conn, path, name=None):
+    name = name or table_name(path)
+    columns, rows = read_records(path)
+    if not columns:
+        raise ValueError('%s has no columns' % path)
+    conn.execute('DROP TABLE IF EXISTS ' + quote(name))
+    conn.execute('CREATE TABLE %s (%s)' % (quote(name), ', '.join(quote(c) for c in columns)))
+    width = len(columns)
+    conn.executemany(
+        'INSERT INTO %s VALUES (%s)' % (quote(name), ', '.join('?' * width)),
+        ([convert(v) for v in row[:width]] + [None] * (width - len(row)) for row in rows))
+    echo('-- loaded %s into table %s (%d rows)' % (path, name, len(rows)))
+
+
+def existing_tables(conn):
+    return {row[0] for row in conn.execute("SELECT name FROM sqlite_master WHERE type IN ('table', 'view')")}
+
+
+def autoload(conn):
+    # Data files become tables the first time they are seen; .import reloads a changed file
+    tables = existing_tables(conn)
+    for entry in sorted(os.listdir('.')):
+        if entry.lower().endswith(DATA_EXTENSIONS) and os.path.isfile(entry) and table_name(entry) not in tables:
+            import_file(conn, entry)
+
+
+def json_value(value):
+    if isinstance(value, bytes):
+        return '0x' + value.hex()
+    if isinstance(value, float) and not math.isfinite(value):
+        return str(value)
+    return value
+
+
+def text_value(value):
+    if value is None:
+        return 'NULL'
+    return str(json_value(value))
+
+
+def print_table(columns, rows, total):
+    cells = [[text_value(v) for v in row] for row in rows[:MAX_PRINTED_ROWS]]
+    widths = [max([len(c)] + [len(r[i]) for r in cells]) for i, c in enumerate(columns)]
+    line = '+' + '+'.join('-' * (w + 2) for w in widths) + '+'
+    echo(line)
+    echo('| ' + ' | '.join(c.ljust(w) for c, w in zip(columns, widths)) + ' |')
+    echo(line)
+    for row in cells:
+        echo('| ' + ' | '.join(v.ljust(w) for v, w in zip(row, widths)) + ' |')
+    echo(line)
+    suffix = '' if len(cells) == total else ', first %d shown' % len(cells)
+    echo('(%d row%s%s)' % (total, '' if total == 1 else 's', suffix))
+
+
+def run_statement(conn, sql):
+    cursor = conn.execute(sql)
+    if cursor.description is None:
+        if cursor.rowcount >= 0:
+            echo('(%d row%s affected)' % (cursor.rowcount, '' if cursor.rowcount == 1 else 's'))
+        return
+    columns = [d[0] for d in cursor.description]
+    rows = cursor.fetchmany(MAX_ROWS)
+    total = len(rows) + sum(1 for _ in cursor)
+    print_table(columns, rows, total)
+    send({'type': 'table', 'data': {
+        'statement': sql.strip(),
+        'columns': columns,
+        'rows': [[json_value(v) for v in row] for row in rows],
+        'rowCount': total,
+        'truncated': total > len(rows)
+    }})
+
+
+def dot_command(conn, line):
+    args = shlex.split(line)
+    if args[0] == '.import' and len(args) in (2, 3):
+        import_file(conn, args[1], args[2] if len(args) == 3 else None)
+    elif args[0] == '.tables' and len(args) == 1:
+        echo('\n'.join(sorted(existing_tables(conn))))
+    elif args[0] == '.schema' and len(args) <= 2:
+        query = "SELECT sql FROM sqlite_master WHERE sql IS NOT NULL"
+        params = ()
+        if len(args) == 2:
+            query += ' AND name = ?'
+            params = (args[1],)
+        for (sql,) in conn.execute(query, params):
+            echo(sql + ';')
+    else:
+        raise ValueError('Unsupported command: %s (use .import FILE [TABLE], .tables or .schema [TABLE])' % line)
+
+
+def take_statements(buffer):
+    # Splits off every complete statement; the rest stays buffered for the next line
+    statements = []
+    start = 0
+    for i, ch in enumerate(buffer):
+        if ch == ';' and sqlite3.complete_statement(buffer[start:i + 1]):
+            statements.append(buffer[start:i + 1])
+            start = i + 1
+    return statements, buffer[start:]
+
+
+def main():
+    conn = sqlite3.connect(os.environ.get('IT_SQL_DATABASE', 'database.sqlite'), isolation_level=None)
+    with open(sys.argv[1], encoding='utf-8') as f:
+        lines = f.read().splitlines()
+    try:
+        autoload(conn)
+        buffer = ''
+        for line in lines:
+            if not buffer.strip() and line.strip().startswith('.'):
+                dot_command(conn, line.strip())
+                continue
+            buffer += line + '\n'
+            statements, buffer = take_statements(buffer)
+            for statement in statements:
+                run_statement(conn, statement)
+        if buffer.strip():
+            # The last statement may omit its semicolon
+            run_statement(conn, buffer)
+    except (sqlite3.Error, OSError, ValueError) as exc:
+        sys.stdout.flush()
+        sys.stderr.write('Error: %s\n' % exc)
+        sys.exit(1)
+    finally:
+        conn.close()
+
+
+if __name__ == '__main__':
+    main()
+`;
+
+// Egress proxy of allowlist sessions: an HTTP proxy (CONNECT for HTTPS, absolute URIs for HTTP)
+// that only reaches allowed destinations and logs every refused request as a JSON line
+const EGRESS_PROXY = String.raw`import ipaddress
+import json
+import os
+import select
+import socket
+import socketserver
+import sys
+import threading
+import time
+from urllib.parse import urlsplit
+
+PORT = int(os.environ.get('EGRESS_PORT', '3128'))
+LOG_FILE = os.environ['EGRESS_LOG']
+MAX_HEAD = 64 * 1024
+IDLE_TIMEOUT = 300
+
+log_lock = threading.Lock()
+
+
+def split_entry(entry):
+    # host, host:port, [v6]:port; a bare IPv6 address or network has several colons and no port
+    if entry.startswith('['):
+        host, _, rest = entry[1:].partition(']')
+        return host, int(rest[1:]) if rest.startswith(':') else None
+    if entry.count(':') == 1:
+        host, port = entry.split(':')
+        return host, int(port)
+    return entry, None
+
+
+def parse_rules(entries):
+    rules = []
+    for entry in entries:
+        host, port = split_entry(entry)
+        try:
+            rules.append(('net', ipaddress.ip_network(host, strict=False), port))
+        except ValueError:
+            rules.append(('host', host.lower().rstrip('.'), port))
+    return rules
+
+
+RULES = parse_rules(json.loads(os.environ.get('EGRESS_ALLOW', '[]')))
+
+
+def host_matches(pattern, host):
+    if pattern.startswith('*.'):
+        return host.endswith(pattern[1:])
+    return host == pattern
+
+
+def resolve(host):
+    try:
+        return [ipaddress.ip_address(host)]
+    except ValueError:
+        pass
+    try:
+        return [ipaddress.ip_address(info[4][0].split('%')[0]) for info in socket.getaddrinfo(host, None)]
+    except OSError:
+        return []
+
+
+def destination(host, port):
+    """Address to connect to, or None when no rule allows host:port. A host allowed through a
+    network rule is reached at the checked address so a second lookup cannot lead elsewhere."""
+    host = host.lower().rstrip('.')
+    addresses = None
+    for kind, value, rule_port in RULES:
+        if rule_port is not None and rule_port != port:
+            continue
+        if kind == 'host':
+            if host_matches(value, host):
+                return host
+        else:
+            if addresses is None:
+                addresses = resolve(host)
+            if addresses and all(address in value for address in addresses):
+                return str(addresses[0])
+    return None
+
+
+def record_blocked(method, host, port):
+    entry = {
+        'time': time.strftime('%Y-%m-%dT%H:%M:%SZ', time.gmtime()),
+        'method': method,
+        'host': host,
+        'port': port
+    }
+    with log_lock, open(LOG_FILE, 'a') as log:
+        log.write(json.dumps(entry) + '\n')
+
+
+def split_authority(authority, default_port):
+    if authority.startswith('['):
+        host, _, rest = authority[1:].partition(']')
+        return host, int(rest[1:]) if rest.startswith(':') else default_port
+    host, _, port = authority.rpartition(':')
+    if not host:
+        return authority, default_port
+    return host, int(port)
+
+
+def pipe(client, upstream):
+    client.settimeout(None)
+    upstream.settimeout(None)
+    sockets = [client, upstream]
+    while True:
+        readable, _, _ = select.select(sockets, [], [], IDLE_TIMEOUT)
+        if not readable:
+            return
+        for sock in readable:
+            data = sock.recv(65536)
+            if not data:
+                return
+            (upstream if sock is client else client).sendall(data)
+
+
+def reply(conn, status, reason, body=''):
+    payload = body.encode()
+    conn.sendall(('HTTP/1.1 %d %s\r\nContent-Type: text/plain\r\nContent-Length: %d\r\nConnection: close\r\n\r\n'
+                  % (status, reason, len(payload))).encode() + payload)
+
+
+class Handler(socketserver.BaseRequestHandler):
+    def handle(self):
+        conn = self.request
+        conn.settimeout(30)
+        head = b''
+        while b'\r\n\r\n' not in head:
+            chunk = conn.recv(65536)
+            if not chunk or len(head) + len(chunk) > MAX_HEAD:
+                return
+            head += chunk
+        header, _, rest = head.partition(b'\r\n\r\n')
+        lines = header.decode('latin-1').split('\r\n')
+        try:
+            method, target, version = lines[0].split(' ', 2)
+            if method.upper() == 'CONNECT':
+                host, port = split_authority(target, 443)
+            else:
+                url = urlsplit(target)
+                if url.scheme != 'http' or not url.hostname:
+                    return reply(conn, 400, 'Bad Request', 'Only absolute http:// URIs and CONNECT are supported\n')
+                host, port = url.hostname, url.port or 80
+        except ValueError:
+            return reply(conn, 400, 'Bad Request')
+
+        address = destination(host, port)
+        if address is None:
+            record_blocked(method.upper(), host, port)
+            return reply(conn, 403, 'Forbidden', 'Blocked by the network allowlist: %s:%d\n' % (host, port))
+        try:
+            upstream = socket.create_connection((address, port), timeout=30)
+        except OSError as exc:
+            return reply(conn, 502, 'Bad Gateway', '%s\n' % exc)
+
+        with upstream:
+            if method.upper() == 'CONNECT':
+                conn.sendall(b'HTTP/1.1 200 Connection Established\r\n\r\n')
+            else:
+                path = (url.path or '/') + ('?' + url.query if url.query else '')
+                # One request per connection, so every request is checked
+                headers = [line for line in lines[1:]
+                           if not line.lower().startswith(('proxy-connection:', 'proxy-authorization:', 'connection:'))]
+                request = '\r\n'.join(['%s %s %s' % (method, path, version)] + headers + ['Connection: close', '', ''])
+                upstream.sendall(request.encode('latin-1'))
+            if rest:
+                upstream.sendall(rest)
+            pipe(conn, upstream)
+
+
+class Server(socketserver.ThreadingTCPServer):
+    daemon_threads = True
+    allow_reuse_address = True
+
+
+def main():
+    server = Server(('0.0.0.0', PORT), Handler)
+    # The engine waits for this file before it lets programs use the proxy
+    open(os.path.join(os.path.dirname(LOG_FILE), 'ready'), 'w').close()
+    sys.stdout.write('egress proxy listening on %d with %d rules\n' % (PORT, len(RULES)))
+    server.serve_forever()
+
+
+if __name__ == '__main__':
+    main()
+`;
+
+const RUNTIME_FILES: Record<string, string> = {
+  'kernels/python_kernel.py': PYTHON_KERNEL,
+  'kernels/javascript_kernel.js': JAVASCRIPT_KERNEL,
+  'python/it_display.py': PYTHON_DISPLAY,
+  'python/it_display_backend.py': PYTHON_DISPLAY_BACKEND,
+  'python/sitecustomize.py': PYTHON_SITECUSTOMIZE,
+  'sql/sql_runner.py': SQL_RUNNER,
+  'network/egress_proxy.py': EGRESS_PROXY
+};
+
+let runtimeDirReady = false;
+
+/**
+ * Writes the helper programs to the host directory that is mounted into containers.
+ * Files are rewritten once per process so an upgraded package never serves stale helpers.
+ */
+export function ensureRuntimeDir(): string {
+  if (!runtimeDirReady) {
+    for (const [relativePath, content] of Object.entries(RUNTIME_FILES)) {
+      const fullPath = path.join(RUNTIME_DIR, relativePath);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, content);
+    }
+    runtimeDirReady = true;
+  }
+  return RUNTIME_DIR;
+}
@@ -0,0 +1,216 @@
+import Docker from 'dockerode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Duplex } from 'stream';
+import { ContainerUnavailableError, InvalidOptionsError } from './errors';
+import { SecretValue } from './types';
+
+// tmpfs mount of every container; file secrets appear here as one file per secret
+export const SECRETS_DIR = '/run/secrets';
+
+const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Generated files larger than this are not scanned for secrets
+const MAX_REDACTED_FILE_BYTES = 10 * 1024 * 1024;
+
+export interface ResolvedSecrets {
+  env: Record<string, string>;    // Delivered as environment variables
+  files: Record<string, string>;  // Delivered as SECRETS_DIR/<name>
+  values: Record<string, string>; // Every secret by name, for redaction
+}
+
+/**
+ * Merges session and execution secrets (the execution wins on a name clash) and sorts them
+ * by delivery. Throws InvalidOptionsError for invalid names or empty values.
+ */
+export function resolveSecrets(...sources: (Record<string, SecretValue> | undefined)[]): ResolvedSecrets {
+  const resolved: ResolvedSecrets = { env: {}, files: {}, values: {} };
+  for (const [name, secret] of sources.flatMap(source => Object.entries(source ?? {}))) {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new InvalidOptionsError(`Invalid secret name: ${name}`);
+    }
+    const { value, as = 'env' } = typeof secret === 'string' ? { value: secret } : secret;
+    if (typeof value !== 'string' || value.length === 0) {
+      throw new InvalidOptionsError(`Secret ${name} has no value`);
+    }
+    delete resolved.env[name];
+    delete resolved.files[name];
+    resolved[as === 'file' ? 'files' : 'env'][name] = value;
+    resolved.values[name] = value;
+  }
+  return resolved;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replaces secret values with `[REDACTED:<name>]`. All secrets are matched in one pass,
+ * longest first, so a placeholder is never redacted again.
+ */
+export class SecretRedactor {
+  private readonly placeholders = new Map<string, string>();
+  private readonly pattern: RegExp | null;
+
+  constructor(secrets: Record<string, string>) {
+    for (const [name, value] of Object.entries(secrets)) {
+      if (value && !this.placeholders.has(value)) this.placeholders.set(value, `[REDACTED:${name}]`);
+    }
+    const values = Array.from(this.placeholders.keys()).sort((a, b) => b.length - a.length);
+    this.pattern = values.length > 0 ? new RegExp(values.map(escapeRegExp).join('|'), 'g') : null;
+  }
+
+  redact(text: string): string {
+    if (!this.pattern || !text) return text;
+    return text.replace(this.pattern, match => this.placeholders.get(match)!);
+  }
+
+  // Redacts every string inside a JSON-like value (rich outputs, query tables)
+  redactValue<T>(value: T): T {
+    if (typeof value === 'string') return this.redact(value) as T;
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redactValue(v)])) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Redactor for a stream delivered in chunks. A chunk that ends with the beginning of a
+   * secret is held back until the next chunk shows whether the secret continues.
+   */
+  stream(): { push: (chunk: string) => string; end: () => string } {
+    let pending = '';
+    return {
+      push: (chunk) => {
+        const text = pending + chunk;
+        if (!this.pattern) return text;
+        let cut = text.length - this.partialSuffixLength(text);
+        // A complete secret that crosses the cut is emitted whole
+        for (const match of text.matchAll(this.pattern)) {
+          const end = match.index! + match[0].length;
+          if (match.index! < cut && end > cut) cut = end;
+        }
+        pending = text.slice(cut);
+        return this.redact(text.slice(0, cut));
+      },
+      end: () => {
+        const rest = pending;
+        pending = '';
+        return this.redact(rest);
+      }
+    };
+  }
+
+  /**
+   * Rewrites a text file in place when it contains a secret; binary and very large files are skipped.
+   * The file is written by programs in the container, so symlinks are never followed and a file
+   * that does not resolve inside `root` is left alone.
+   */
+  redactFile(filePath: string, root: string): void {
+    if (!this.pattern) return;
+    let fd: number | undefined;
+    try {
+      if (!fs.lstatSync(filePath).isFile()) return;
+      fd = fs.openSync(filePath, fs.constants.O_RDWR | fs.constants.O_NOFOLLOW);
+      const stat = fs.fstatSync(fd);
+      if (!stat.isFile() || stat.size > MAX_REDACTED_FILE_BYTES) return;
+      // A parent directory may have been swapped for a symlink since the file was listed
+      const opened = fs.existsSync(`/proc/self/fd/${fd}`) ? fs.readlinkSync(`/proc/self/fd/${fd}`) : fs.realpathSync(filePath);
+      if (!opened.startsWith(fs.realpathSync(root) + path.sep)) return;
+
+      const content = Buffer.alloc(stat.size);
+      fs.readSync(fd, content, 0, stat.size, 0);
+      if (content.subarray(0, 8192).includes(0)) return;
+      const text = content.toString('utf8');
+      const redacted = this.redact(text);
+      if (redacted !== text) {
+        fs.ftruncateSync(fd, 0);
+        fs.writeSync(fd, redacted, 0);
+      }
+    } catch (err) {
+      console.error('Failed to redact secrets in file:', err);
+    } finally {
+      if (fd !== undefined) fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Redacts an error in place: its message and stack, an attached execution `result`, and the
+   * whole `cause` chain. A cause that is neither an Error nor a string cannot be scanned and is dropped.
+   */
+  redactError(error: Error): void {
+    for (let current: Error | undefined = error, depth = 0; current && depth < 10; depth++) {
+      current.message = this.redact(current.message);
+      if (current.stack) current.stack = this.redact(current.stack);
+      const fields = current as { result?: unknown; cause?: unknown };
+      if (fields.result !== undefined) fields.result = this.redactValue(fields.result);
+      if (typeof fields.cause === 'string') {
+        fields.cause = this.redact(fields.cause);
+      } else if (fields.cause !== undefined && !(fields.cause instanceof Error)) {
+        fields.cause = undefined;
+      }
+      current = fields.cause instanceof Error ? fields.cause : undefined;
+    }
+  }
+
+  // Length of the longest end of `text` that is the start (but not the whole) of a secret
+  private partialSuffixLength(text: string): number {
+    let longest = 0;
+    for (const value of this.placeholders.keys()) {
+      for (let length = Math.min(value.length - 1, text.length); length > longest; length--) {
+        if (text.endsWith(value.slice(0, length))) {
+          longest = length;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
+
+async function runSecretsScript(container: Docker.Container, script: string, stdin?: string): Promise<void> {
+  const exec = await container.exec({
+    Cmd: ['sh', '-c', script],
+    AttachStdin: stdin !== undefined,
+    AttachStdout: true,
+    AttachStderr: true
+  });
+  const stream = await exec.start({ hijack: true, stdin: stdin !== undefined });
+  let stderr = '';
+  await new Promise<void>((resolve) => {
+    container.modem.demuxStream(stream as Duplex,
+      { write: () => {} },
+      { write: (c: Buffer) => { stderr += c.toString(); } }
+    );
+    stream.on('end', resolve);
+    stream.on('error', () => resolve());
+    if (stdin !== undefined) {
+      stream.write(stdin);
+      stream.end();
+    }
+  });
+  const info = await exec.inspect();
+  if (info.ExitCode !== 0) {
+    throw new Error(stderr.trim() || `exit code ${info.ExitCode}`);
+  }
+}
+
+// Writes file secrets to SECRETS_DIR, readable by the container user only
+export async function writeSecretFiles(container: Docker.Container, files: Record<string, string>): Promise<void> {
+  for (const [name, value] of Object.entries(files)) {
+    try {
+      await runSecretsScript(container, `umask 077 && mkdir -p ${SECRETS_DIR} && cat > ${SECRETS_DIR}/${name}`, value);
+    } catch (err) {
+      throw new ContainerUnavailableError(`Failed to write secret ${name}`, err);
+    }
+  }
+}
+
+export async function removeSecretFiles(container: Docker.Container, names: string[]): Promise<void> {
+  if (names.length === 0) return;
+  try {
+    await runSecretsScript(container, `rm -f ${names.map(name => `${SECRETS_DIR}/${name}`).join(' ')}`);
+  } catch (err) {
+    console.error('Failed to remove secret files:', err);
+  }
+}
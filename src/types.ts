@@ -1,12 +1,22 @@
-export type Language = 'typescript' | 'javascript' | 'python' | 'shell'; // default languages
+export type Language =  // default languages
+  | 'typescript' | 'javascript' | 'python' | 'shell'
+  | 'go' | 'rust' | 'java' | 'c' | 'cpp'
+  | 'deno' | 'bun'
+  | 'sql';
 
 export interface ExecutionOptions {
-  language: Language;
+  language?: Language;  // Detected from the code, entry file and project files when omitted
   code: string;
   dependencies?: string[];
-  timeout?: number;
-  memoryLimit?: string;
-  cpuLimit?: string;
+  version?: string;  // Runtime version, one of the language's `versions` (e.g. '3.12' for python); defaults to its defaultImage
+  timeout?: number;            // Wall-clock limit for the run itself in ms
+  dependencyTimeout?: number;  // Wall-clock limit for dependency installation in ms
+  compileTimeout?: number;     // Wall-clock limit for the compile step in ms (compiled languages only)
+  compileFlags?: string[];     // Extra compiler/linker flags for compiled languages, e.g. ['-lm'] for C
+  denoPermissions?: DenoPermissions | 'all';  // Deno only; defaults to read/write access to the working directory
+  memoryLimit?: string;  // Same as resources.memory, which wins when both are set
+  cpuLimit?: string;     // Same as resources.cpus, which wins when both are set
+  resources?: ResourceProfile;  // Memory, swap, CPU and pids limits of this execution over the session's
   verbose?: boolean;
   runApp?: {
     cwd: string;
@@ -17,20 +27,126 @@ export interface ExecutionOptions {
     stderr?: (data: string) => void;
     dependencyStdout?: (data: string) => void;
     dependencyStderr?: (data: string) => void;
+    compileStdout?: (data: string) => void;
+    compileStderr?: (data: string) => void;
+    display?: (output: MimeBundle) => void;  // Rich outputs such as charts, as soon as they are produced
   };
   workspaceSharing?: 'isolated' | 'shared';  // New option: 'isolated' (default) or 'shared'
+  signal?: AbortSignal;  // Aborting kills the running exec or dependency install and rejects with ExecutionCancelledError
+  stdin?: string;  // Piped to the program's standard input, which is then closed
+  env?: Record<string, string>;  // Variables for this execution only (install, compile and run); override the session's environment
+  secrets?: Record<string, SecretValue>;  // Like env, but redacted from all output; override the session's secrets
+  executionMode?: 'script' | 'kernel';  // 'kernel' keeps interpreter state between calls (PER_SESSION only)
+  outputLimits?: OutputLimits;
+  files?: Record<string, string | Buffer>;  // Extra files written into /workspace before the run, keyed by relative path
+  entryFile?: string;  // Workspace-relative file to run instead of the language's code file (e.g. one of `files`)
+  throwOnTimeout?: boolean;  // Reject with ExecutionTimeoutError (carrying the partial result) instead of resolving
+  priority?: number;  // Order in the engine's execution queue; higher runs first (default 0)
+  onQueuePosition?: (position: number, queue: QueueKind) => void;  // Called while waiting for the session or a free execution slot (1 = next)
+}
+
+// 'session' while an earlier execution of the same session runs, then 'global' while waiting for a slot
+export type QueueKind = 'session' | 'global';
+
+// How the engine chose the language of an execution that did not specify one
+export interface LanguageDetection {
+  language: Language;
+  confidence: number;  // 0..1; heuristics alone never exceed 0.7
+  method: 'shebang' | 'extension' | 'markers' | 'heuristics';
 }
 
+// A secret is delivered as an environment variable by default, or as the file /run/secrets/<name>
+export type SecretValue = string | { value: string; as?: 'env' | 'file' };
+
+/**
+ * Network access of a session's programs. 'full' (the default) is unrestricted, 'none' leaves
+ * only the loopback interface, and `allow` routes traffic through an egress proxy that only
+ * reaches the listed hosts (`example.com`, `*.example.com`), addresses and CIDR ranges,
+ * optionally restricted to a port (`example.com:443`).
+ */
+export type NetworkAccess = 'none' | 'full' | { allow: string[] };
+
+// Dependency installation is the 'install' phase; compiling and running the program is the 'run' phase
+export type NetworkPhase = 'install' | 'run';
+
+// One access for the whole execution, or a separate access per phase
+export type NetworkPolicy = NetworkAccess | { install: NetworkAccess; run: NetworkAccess };
+
+// Kind of access a phase of an execution had
+export type NetworkAccessMode = 'none' | 'full' | 'allowlist';
+
+// A request the egress proxy refused because no allowlist entry matched
+export interface BlockedConnection {
+  host: string;
+  port: number;
+  method: string;  // CONNECT for HTTPS, the request method for plain HTTP
+  time: string;    // ISO 8601
+  phase: NetworkPhase;
+}
+
+// One query result of the sql language
+export interface QueryTable {
+  statement: string;
+  columns: string[];
+  rows: unknown[][];  // JSON values; blobs are hex strings prefixed with 0x
+  rowCount: number;   // Rows the query returned; `rows` holds at most the first 10000
+  truncated: boolean;
+}
+
+// Deno permission flags: `true` grants the permission fully, a list grants it for those entries only
+export interface DenoPermissions {
+  read?: boolean | string[];
+  write?: boolean | string[];
+  net?: boolean | string[];
+  env?: boolean | string[];
+  run?: boolean | string[];
+  sys?: boolean | string[];
+  ffi?: boolean | string[];
+}
+
+// Maximum bytes of each stream kept in ExecutionResult; the full stream is spilled to a file in the engine's host directory
+export interface OutputLimits {
+  stdout?: number;
+  stderr?: number;
+}
+
+export interface OutputTruncation {
+  totalBytes: number;
+  keptBytes: number;
+  file: string;  // Host path of the full output; kept until cleanupSession() or cleanup()
+}
+
+export interface StdinHandle {
+  write: (data: string | Buffer) => void;
+  end: () => void;  // Closes stdin so the program sees EOF
+}
+
+export interface InteractiveExecution {
+  stdin: StdinHandle;
+  result: Promise<ExecutionResult>;
+}
+
+// One rich output; values are keyed by MIME type (image/png is base64 encoded)
+export interface MimeBundle {
+  'text/plain'?: string;
+  'image/png'?: string;
+  'text/html'?: string;
+  'application/json'?: unknown;
+}
+
+// 'zip' and 'tar' (.tar, .tar.gz, .tgz) sources are extracted to a directory that is removed with the container
 export interface MountOptions {
-  type: 'file' | 'directory' | 'zip';
+  type: 'file' | 'directory' | 'zip' | 'tar';
   source: string;
-  target: string;
+  target: string;       // Absolute path inside the container
+  readOnly?: boolean;   // default true for 'file', false otherwise
 }
 
 export interface ContainerConfig {
   image: string;
   mounts?: MountOptions[];
   environment?: Record<string, string>;
+  secrets?: Record<string, SecretValue>;  // Delivered to every execution of the session, never set on the container itself
   name?: string;
 }
 
@@ -41,11 +157,147 @@ export interface ExecutionResult {
   dependencyStderr: string;
   exitCode: number;
   executionTime: number;
+  timedOut: boolean; // True when the run, the compile step or the dependency installation hit its timeout and was killed
+  // Compile step of compiled languages; absent for interpreted ones
+  compileStdout?: string;
+  compileStderr?: string;
+  compileExitCode?: number;  // The program only runs when this is 0
+  compileCached?: boolean;   // The sources were unchanged, so the session's previous build was reused
+  value?: string;    // Kernel mode: representation of the cell's last expression, if it had one
+  outputs: MimeBundle[]; // Rich outputs (display() calls, matplotlib figures) in the order they were produced
+  tables?: QueryTable[];  // SQL: the result of every query, in order
+  languageDetection?: LanguageDetection;  // Present when `language` was omitted and had to be detected
+  network?: {                // Access each phase had; `install` is absent when no dependency installation ran
+    install?: NetworkAccessMode;
+    run: NetworkAccessMode;
+  };
+  blockedConnections?: BlockedConnection[];  // Allowlist sessions: requests refused during this execution
+  resourceUsage?: {          // Usage of each phase that ran; `run` is absent when the program never started
+    install?: ResourceUsage;
+    compile?: ResourceUsage;
+    run?: ResourceUsage;
+  };
+  workspaceLimitExceeded?: boolean;  // The workspace outgrew resources.workspaceSize, so the container's processes were killed
+  truncation?: {         // Present when a stream exceeded its outputLimits entry
+    stdout?: OutputTruncation;
+    stderr?: OutputTruncation;
+  };
   workspaceDir: string;
   generatedFiles: string[];
   sessionGeneratedFiles: string[]; // All files generated across all runs in the session
 }
 
+// Sizes are strings like '512m' or '1.5g' (binary units; a bare number is bytes)
+export interface ResourceLimits {
+  memory?: string;
+  swap?: string;       // Swap on top of `memory`; '0' disables swap, default is as much as `memory`
+  cpus?: number;       // CPU cores, may be fractional (0.5)
+  pids?: number;       // Processes and threads the container may have at once; stops fork bombs
+  tmpSize?: string;    // Size of an in-memory /tmp (session only)
+  openFiles?: number;  // Open file descriptors per process (session only)
+  workspaceSize?: string;  // Disk space the files in /workspace may take up; also the largest file anywhere (session only)
+}
+
+export type ResourcePreset = 'small' | 'medium' | 'large';
+
+// A preset, or limits optionally based on a preset
+export type ResourceProfile = ResourcePreset | (ResourceLimits & { preset?: ResourcePreset });
+
+// Fields are missing when the container's cgroup exposes no counter for them
+export interface ResourceUsage {
+  cpuTimeMs?: number;        // CPU time used, when the container's cgroup exposes it
+  memoryPeakBytes?: number;  // Highest memory use during the measured span; missing when it cannot be told apart from an earlier peak
+  readBytes?: number;        // Read from block devices
+  writeBytes?: number;       // Written to block devices; page cache not yet flushed is not counted
+  peakProcesses?: number;    // Most processes in the container at once; missing like memoryPeakBytes
+  oomKilled: boolean;        // A process was killed for exceeding the memory limit
+}
+
+export interface TestCase {
+  name?: string;
+  stdin?: string;
+  args?: string[];  // Command-line arguments passed to the program
+  expectedStdout?: string;  // When omitted the case passes on a zero exit code
+  timeout?: number;  // ms; defaults to the suite's `timeout`
+}
+
+export type TestVerdict = 'pass' | 'wrong_answer' | 'runtime_error' | 'timeout' | 'memory_limit_exceeded';
+
+// 'trimmed' ignores trailing whitespace on each line and trailing blank lines
+export type OutputComparison = 'exact' | 'trimmed';
+
+export interface TestSuiteOptions extends ExecutionOptions {
+  testCases: TestCase[];
+  comparison?: OutputComparison;  // default 'trimmed'
+  stopOnFailure?: boolean;  // Skip the remaining cases after the first one that does not pass
+}
+
+export interface TestCaseResult {
+  index: number;
+  name?: string;
+  verdict: TestVerdict;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  expectedStdout?: string;
+  diff?: string;  // Line diff of expected (-) vs actual (+) output for wrong answers
+  executionTime: number;
+  resourceUsage: ResourceUsage;
+}
+
+export interface TestSuiteResult {
+  results: TestCaseResult[];  // Cases that ran, in order; fewer than testCases after stopOnFailure or a dependency timeout
+  passed: number;
+  total: number;
+  dependencyStdout: string;
+  dependencyStderr: string;
+  dependencyTimedOut: boolean;
+  compileStdout?: string;
+  compileStderr?: string;
+  compileExitCode?: number;  // When it is not 0 no case ran
+  languageDetection?: LanguageDetection;
+  network?: ExecutionResult['network'];
+  blockedConnections?: BlockedConnection[];
+  resourceUsage?: ExecutionResult['resourceUsage'];  // `run` covers all cases; each case has its own too
+  executionTime: number;
+  workspaceDir: string;
+  generatedFiles: string[];
+}
+
+export interface ExecutionEngineOptions {
+  jobRetention?: number;  // How long finished jobs (status, output, result) are kept in ms; default one hour
+  jobOutputBuffer?: number;  // Bytes of output kept per job for replay; older chunks are dropped (default 1MB)
+  maxConcurrency?: number;  // Executions running at once across all sessions; further calls wait in a queue (default unlimited)
+  languageManifests?: string[];  // Language manifest files or directories (JSON/YAML) registered when the engine is created
+}
+
+export type JobStatus = 'queued' | 'installing' | 'compiling' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobInfo {
+  jobId: string;
+  sessionId: string;
+  status: JobStatus;
+  submittedAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  outputOffset: number;  // Offset the next output chunk will get
+  firstOutputOffset: number;  // Offset of the oldest chunk still buffered; earlier chunks were dropped
+  queuePosition?: number;  // Position in the execution queue while the job waits for a slot
+  queue?: QueueKind;       // Which queue queuePosition refers to
+  error?: { name: string; code?: string; message: string };  // Set when status is 'failed' or 'cancelled'
+}
+
+export interface JobOutputChunk {
+  offset: number;  // Position in the job's output, starting at 0
+  stream: 'stdout' | 'stderr' | 'dependencyStdout' | 'dependencyStderr';
+  data: string;
+}
+
+export interface JobOutputHandlers {
+  onOutput: (chunk: JobOutputChunk) => void;
+  onEnd?: (job: JobInfo) => void;  // Called once the job has finished, after the last chunk
+}
+
 export interface ContainerPoolConfig {
   maxSize: number;
   minSize: number;
@@ -62,6 +314,8 @@ export interface SessionConfig {
   strategy: ContainerStrategy;
   poolConfig?: ContainerPoolConfig;
   containerConfig: ContainerConfig;
+  network?: NetworkPolicy;  // default 'full'
+  resources?: ResourceProfile;  // default 512MB of memory and half a CPU
   sessionId?: string;
   enforceNewSession?: boolean;
 }
@@ -70,4 +324,5 @@ export interface ContainerMount {
   type: 'directory';
   source: string;
   target: string;
+  readOnly?: boolean;
 } 
\ No newline at end of file
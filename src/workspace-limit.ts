@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// How often the workspace is measured while an execution runs
+const WORKSPACE_POLL_INTERVAL = 1000;
+
+interface WorkspaceWatch {
+  stop(): void;
+}
+
+/**
+ * Disk space the files below `dir` take up, counted in allocated blocks like `du`, so sparse
+ * files count what they really use. Symlinks are not followed; entries removed while the walk
+ * runs are skipped.
+ */
+export async function workspaceBytes(dir: string): Promise<number> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  let total = 0;
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await workspaceBytes(fullPath);
+      continue;
+    }
+    try {
+      total += (await fs.promises.lstat(fullPath)).blocks * 512;
+    } catch {}
+  }
+  return total;
+}
+
+/**
+ * Measures `dir` every WORKSPACE_POLL_INTERVAL and calls `onExceeded` once when it takes up more
+ * than `limitBytes`. A measurement still running when the next one is due is not overlapped.
+ */
+export function watchWorkspaceSize(dir: string, limitBytes: number, onExceeded: (bytes: number) => void): WorkspaceWatch {
+  let measuring = false;
+  let stopped = false;
+  const timer = setInterval(() => {
+    if (measuring) return;
+    measuring = true;
+    void workspaceBytes(dir).then(bytes => {
+      measuring = false;
+      if (stopped || bytes <= limitBytes) return;
+      stop();
+      onExceeded(bytes);
+    });
+  }, WORKSPACE_POLL_INTERVAL);
+  const stop = () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+  return { stop };
+}